@@ -0,0 +1,17 @@
+import AlertRulesPanel from "../components/AlertRulesPanel";
+import PageHeader from "../components/PageHeader";
+
+export default function AlertsPage() {
+  return (
+    <div className="grid grid-rows-[auto_1fr_auto] items-start justify-items-center min-h-screen p-8 pb-20 gap-8 sm:p-12 font-[family-name:var(--font-geist-sans)]">
+      <PageHeader
+        title="page.alerts.title"
+        description="page.alerts.description"
+      />
+
+      <main className="row-start-2 w-full">
+        <AlertRulesPanel />
+      </main>
+    </div>
+  );
+}
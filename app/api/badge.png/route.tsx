@@ -0,0 +1,76 @@
+// UV Badge (PNG)
+// The current UV index as a small PNG image, for email clients that do not
+// show SVG
+
+import { ImageResponse } from "next/og";
+import { NextRequest } from "next/server";
+import { apiError } from "../../services/publicApi";
+import {
+  BADGE_FONT_SIZE,
+  BADGE_HEIGHT,
+  BADGE_TITLE_COLORS,
+  getBadgeHeaders,
+  loadBadge,
+  notModified,
+} from "../../services/uvBadge";
+import { parseBadgeOptions } from "../../services/uvWidget";
+
+export const dynamic = "force-dynamic";
+
+// Rendered at twice the SVG's size so it stays sharp on high-density screens
+const SCALE = 2;
+
+/**
+ * GET /api/badge.png?lat=&lng=[&alt=][&provider=][&lang=][&palette=]
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parseBadgeOptions(request.nextUrl.searchParams);
+  if ("error" in parsed) {
+    return apiError(400, "invalid-query", parsed.error);
+  }
+
+  const badge = await loadBadge(parsed.options);
+  const cached = notModified(request, badge, "png");
+  if (cached) return cached;
+
+  const part = (text: string, width: number, fill: string, color: string) => (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        width: width * SCALE,
+        height: BADGE_HEIGHT * SCALE,
+        backgroundColor: fill,
+        color,
+        fontSize: BADGE_FONT_SIZE * SCALE,
+      }}
+    >
+      {text}
+    </div>
+  );
+
+  return new ImageResponse(
+    (
+      <div style={{ display: "flex" }}>
+        {part(
+          badge.title,
+          badge.titleWidth,
+          BADGE_TITLE_COLORS.fill,
+          BADGE_TITLE_COLORS.text
+        )}
+        {part(
+          badge.value,
+          badge.width - badge.titleWidth,
+          badge.colors.fill,
+          badge.colors.text
+        )}
+      </div>
+    ),
+    {
+      width: badge.width * SCALE,
+      height: BADGE_HEIGHT * SCALE,
+      headers: getBadgeHeaders(badge, "png"),
+    }
+  );
+}
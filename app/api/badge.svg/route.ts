@@ -0,0 +1,32 @@
+// UV Badge (SVG)
+// The current UV index as a small SVG image for hot-linking
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "../../services/publicApi";
+import {
+  getBadgeHeaders,
+  loadBadge,
+  notModified,
+  renderBadgeSvg,
+} from "../../services/uvBadge";
+import { parseBadgeOptions } from "../../services/uvWidget";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/badge.svg?lat=&lng=[&alt=][&provider=][&lang=][&palette=]
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parseBadgeOptions(request.nextUrl.searchParams);
+  if ("error" in parsed) {
+    return apiError(400, "invalid-query", parsed.error);
+  }
+
+  const badge = await loadBadge(parsed.options);
+  return (
+    notModified(request, badge, "svg") ??
+    new NextResponse(renderBadgeSvg(badge), {
+      headers: getBadgeHeaders(badge, "svg"),
+    })
+  );
+}
@@ -0,0 +1,62 @@
+// Forecast CSV Export
+// Downloads the UV forecast for a location as a spreadsheet
+
+import { NextRequest, NextResponse } from "next/server";
+import { forecastToCsv } from "../../../services/forecastExport";
+import {
+  DAYS_PARAM,
+  INTERVAL_PARAM,
+  LOCATION_PARAMS,
+  TIME_ZONE_PARAM,
+  apiError,
+  parseUVQuery,
+} from "../../../services/publicApi";
+import { MAX_FORECAST_DAYS } from "../../../services/uvForecast";
+import { getProviderPriority, getUVData } from "../../../services/uvProviders";
+
+export const dynamic = "force-dynamic";
+
+const PARAMS = [
+  ...LOCATION_PARAMS,
+  { ...DAYS_PARAM, default: MAX_FORECAST_DAYS },
+  INTERVAL_PARAM,
+  {
+    ...TIME_ZONE_PARAM,
+    description:
+      "IANA time zone of the local_time column, the location's by default",
+  },
+];
+
+/**
+ * GET /api/export/forecast.csv?lat=&lng=[&alt=][&provider=][&days=][&interval=][&tz=]
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parseUVQuery(request.nextUrl.searchParams, PARAMS);
+  if ("error" in parsed) {
+    return apiError(400, "invalid-query", parsed.error);
+  }
+
+  const { query } = parsed;
+  const result = await getUVData(query.location, {
+    priority: query.provider ? [query.provider] : getProviderPriority(),
+    forecast: query.forecast,
+  });
+  if (!result.data) {
+    return apiError(
+      502,
+      "no-data",
+      result.error?.message ?? "No UV provider answered",
+      result.attempts
+    );
+  }
+
+  const csv = forecastToCsv(result.data.hourlyForecast ?? [], query.timeZone);
+
+  return new NextResponse(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="uv-forecast.csv"',
+      "Cache-Control": "no-store",
+    },
+  });
+}
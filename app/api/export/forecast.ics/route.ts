@@ -0,0 +1,85 @@
+// Forecast Calendar Feed
+// Subscribable iCalendar feed of the high-UV periods at a location
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_CALENDAR_THRESHOLD,
+  forecastToICalendar,
+} from "../../../services/forecastExport";
+import {
+  DAYS_PARAM,
+  LOCATION_PARAMS,
+  QueryParamSpec,
+  TIME_ZONE_PARAM,
+  apiError,
+  numberValue,
+  parseUVQuery,
+  stringValue,
+} from "../../../services/publicApi";
+import { MAX_FORECAST_DAYS } from "../../../services/uvForecast";
+import { getProviderPriority, getUVData } from "../../../services/uvProviders";
+
+export const dynamic = "force-dynamic";
+
+const PARAMS: QueryParamSpec[] = [
+  ...LOCATION_PARAMS,
+  { ...DAYS_PARAM, default: MAX_FORECAST_DAYS },
+  {
+    ...TIME_ZONE_PARAM,
+    description:
+      "IANA time zone the events' days are split in, the location's by default",
+  },
+  {
+    name: "threshold",
+    description: "UV index from which a period becomes an event",
+    type: "number",
+    minimum: 1,
+    maximum: 15,
+    default: DEFAULT_CALENDAR_THRESHOLD,
+  },
+  { name: "name", description: "Name shown for the location", type: "string" },
+];
+
+/**
+ * GET /api/export/forecast.ics?lat=&lng=[&alt=][&provider=][&days=][&tz=][&threshold=][&name=]
+ * Calendar apps re-fetch the feed, so events follow the latest forecast
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parseUVQuery(request.nextUrl.searchParams, PARAMS);
+  if ("error" in parsed) {
+    return apiError(400, "invalid-query", parsed.error);
+  }
+
+  const { query, values } = parsed;
+  const result = await getUVData(query.location, {
+    priority: query.provider ? [query.provider] : getProviderPriority(),
+    forecast: query.forecast,
+  });
+  if (!result.data) {
+    return apiError(
+      502,
+      "no-data",
+      result.error?.message ?? "No UV provider answered",
+      result.attempts
+    );
+  }
+
+  const calendar = forecastToICalendar(
+    result.data.hourlyForecast ?? [],
+    query.location,
+    {
+      name: stringValue(values, "name"),
+      threshold:
+        numberValue(values, "threshold") ?? DEFAULT_CALENDAR_THRESHOLD,
+      timeZone: query.timeZone,
+    }
+  );
+
+  return new NextResponse(calendar, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="uv-forecast.ics"',
+      "Cache-Control": "public, max-age=900",
+    },
+  });
+}
@@ -0,0 +1,102 @@
+// UV History API Route
+// Daily, weekly and monthly peaks and forecast accuracy from the recorder
+
+import { NextRequest, NextResponse } from "next/server";
+import { getHistoryLocations } from "../../services/historyRecorder";
+import {
+  HistoryReport,
+  countDaysAtOrAbove,
+  getForecastAccuracy,
+  getPeriodPeaks,
+  summarizeHistoryByDay,
+} from "../../services/historyStats";
+import { getHistoryStore } from "../../services/historyStore";
+import { getLocationTimeZone } from "../../services/timeZoneLookup";
+import { UVProviderId } from "../../services/types";
+import { isValidTimeZone } from "../../services/uvForecast";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_HISTORY_DAYS = 90;
+const MAX_HISTORY_DAYS = 366;
+
+// Respond with a 400 and an error message
+const badRequest = (error: string) =>
+  NextResponse.json({ error }, { status: 400 });
+
+/**
+ * GET /api/history[?location=][&provider=][&days=][&tz=]
+ * Returns the recorded locations and, for the chosen one (the first by
+ * default), the peaks over the last days and each provider's accuracy.
+ * Peaks use one provider's readings, by default the one with the most, and
+ * days are counted in the location's time zone unless tz names another
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const locations = getHistoryLocations();
+
+  const locationId = searchParams.get("location") ?? locations[0]?.id;
+  const historyLocation = locations.find((entry) => entry.id === locationId);
+  if (locationId && !historyLocation) {
+    return badRequest(`Unknown location: ${locationId}`);
+  }
+
+  const days = Number(searchParams.get("days") ?? DEFAULT_HISTORY_DAYS);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_HISTORY_DAYS) {
+    return badRequest(`days must be an integer from 1 to ${MAX_HISTORY_DAYS}`);
+  }
+
+  const timeZone =
+    searchParams.get("tz") ??
+    (historyLocation ? getLocationTimeZone(historyLocation.location) : "UTC");
+  if (!isValidTimeZone(timeZone)) {
+    return badRequest(`Unknown time zone: ${timeZone}`);
+  }
+
+  const observations = locationId
+    ? await getHistoryStore().query({
+        locationId,
+        from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+      })
+    : [];
+
+  // Count readings per provider to pick a default and list the options
+  const readingCounts = new Map<UVProviderId, number>();
+  for (const observation of observations) {
+    if (observation.kind === "observed") {
+      readingCounts.set(
+        observation.provider,
+        (readingCounts.get(observation.provider) ?? 0) + 1
+      );
+    }
+  }
+  const providers = Array.from(readingCounts.keys());
+  const provider =
+    (searchParams.get("provider") as UVProviderId | null) ??
+    providers.sort(
+      (a, b) => readingCounts.get(b)! - readingCounts.get(a)!
+    )[0] ??
+    null;
+
+  const daily = summarizeHistoryByDay(
+    observations.filter((observation) => observation.provider === provider),
+    timeZone
+  );
+
+  const report: HistoryReport = {
+    locations: locations.map(({ id, name }) => ({ id, name })),
+    location: locationId ?? null,
+    providers,
+    provider,
+    timeZone,
+    daily,
+    weekly: getPeriodPeaks(daily, "week"),
+    monthly: getPeriodPeaks(daily, "month"),
+    veryHighDays: countDaysAtOrAbove(daily),
+    accuracy: getForecastAccuracy(observations),
+  };
+
+  return NextResponse.json(report, {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,24 @@
+// UV Providers API Route
+// Lists the registered providers so the browser can query each one
+
+import { NextResponse } from "next/server";
+import { UVProviderInfo } from "../../../services/types";
+import { getRegisteredUVProviders } from "../../../services/uvProviders";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/uv/providers
+ * Returns the id, name and whether it is configured for every provider
+ */
+export async function GET() {
+  const providers: UVProviderInfo[] = getRegisteredUVProviders().map(
+    (provider) => ({
+      id: provider.id,
+      name: provider.name,
+      configured: provider.isConfigured(),
+    })
+  );
+
+  return NextResponse.json(providers);
+}
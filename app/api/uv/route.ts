@@ -0,0 +1,88 @@
+// UV API Route
+// Proxies the UV providers server-side so credentials never reach the browser.
+// The app's pages call it without a key, so API_KEYS does not apply here
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLocationTimeZone } from "../../services/timeZoneLookup";
+import { UVDataResult, UVProviderId } from "../../services/types";
+import {
+  DEFAULT_FORECAST_OPTIONS,
+  isValidTimeZone,
+  validateForecastOptions,
+} from "../../services/uvForecast";
+import {
+  getProviderPriority,
+  getUVProvider,
+  getUVData,
+} from "../../services/uvProviders";
+
+export const dynamic = "force-dynamic";
+
+// Parse a coordinate query parameter, returning null if it is missing or out of range
+const parseCoordinate = (value: string | null, limit: number) => {
+  if (value === null || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && Math.abs(parsed) <= limit ? parsed : null;
+};
+
+// Respond with a 400 and an error message
+const badRequest = (error: string) =>
+  NextResponse.json({ error }, { status: 400 });
+
+/**
+ * GET /api/uv?lat=&lng=[&alt=][&provider=][&days=][&interval=][&tz=]
+ * Returns the normalized UV data from the first provider that answers,
+ * or only from the requested provider when one is given. days (1-7) and
+ * interval (minutes) set the forecast window; the forecast is summarized per
+ * day in tz, or the location's own time zone when tz is left out; alt
+ * (metres) refines the offline estimate
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const lat = parseCoordinate(searchParams.get("lat"), 90);
+  const lng = parseCoordinate(searchParams.get("lng"), 180);
+
+  if (lat === null || lng === null) {
+    return badRequest("Query parameters lat and lng must be valid coordinates");
+  }
+
+  const altParam = searchParams.get("alt");
+  const altitude = altParam === null ? undefined : Number(altParam);
+  if (altitude !== undefined && !Number.isFinite(altitude)) {
+    return badRequest("Query parameter alt must be a number of metres");
+  }
+
+  const provider = searchParams.get("provider");
+  if (provider && !getUVProvider(provider as UVProviderId)) {
+    return badRequest(`Unknown provider: ${provider}`);
+  }
+
+  const forecast = {
+    days: Number(searchParams.get("days") ?? DEFAULT_FORECAST_OPTIONS.days),
+    intervalMinutes: Number(
+      searchParams.get("interval") ?? DEFAULT_FORECAST_OPTIONS.intervalMinutes
+    ),
+  };
+  const forecastError = validateForecastOptions(forecast);
+  if (forecastError) {
+    return badRequest(forecastError);
+  }
+
+  const timeZone = searchParams.get("tz") ?? getLocationTimeZone({ lat, lng });
+  if (!isValidTimeZone(timeZone)) {
+    return badRequest(`Unknown time zone: ${timeZone}`);
+  }
+
+  const priority = provider
+    ? [provider as UVProviderId]
+    : getProviderPriority();
+  const result: UVDataResult = await getUVData(
+    { lat, lng, altitude },
+    { priority, forecast, timeZone }
+  );
+
+  return NextResponse.json(result, {
+    status: result.data ? 200 : 502,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,19 @@
+// UV API v1: OpenAPI document
+// Machine-readable description of the public API
+
+import { NextRequest, NextResponse } from "next/server";
+import { buildOpenApiDocument } from "../../../services/openApi";
+import { getCorsHeaders, handlePreflight } from "../../../services/publicApi";
+
+/**
+ * GET /api/v1/openapi.json
+ */
+export function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin), {
+    headers: getCorsHeaders(request),
+  });
+}
+
+export function OPTIONS(request: NextRequest) {
+  return handlePreflight(request);
+}
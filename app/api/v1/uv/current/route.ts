@@ -0,0 +1,30 @@
+// UV API v1: current
+// The UV index right now at a location
+
+import { NextRequest } from "next/server";
+import {
+  API_V1_ENDPOINTS,
+  handlePreflight,
+  handleUVRequest,
+  toApiSeverity,
+} from "../../../../services/publicApi";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/v1/uv/current?lat=&lng=[&alt=][&provider=]
+ */
+export async function GET(request: NextRequest) {
+  return handleUVRequest(request, API_V1_ENDPOINTS.current, (data) => ({
+    uvIndex: data.uvIndex,
+    timestamp: data.timestamp,
+    latitude: data.latitude,
+    longitude: data.longitude,
+    source: data.source,
+    severity: toApiSeverity(data.uvIndex),
+  }));
+}
+
+export function OPTIONS(request: NextRequest) {
+  return handlePreflight(request);
+}
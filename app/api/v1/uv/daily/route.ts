@@ -0,0 +1,28 @@
+// UV API v1: daily
+// Per-calendar-day UV summaries in the location's time zone or a given one
+
+import { NextRequest } from "next/server";
+import {
+  API_V1_ENDPOINTS,
+  handlePreflight,
+  handleUVRequest,
+} from "../../../../services/publicApi";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/v1/uv/daily?lat=&lng=[&alt=][&provider=][&days=][&tz=]
+ */
+export async function GET(request: NextRequest) {
+  return handleUVRequest(request, API_V1_ENDPOINTS.daily, (data, query) => ({
+    latitude: data.latitude,
+    longitude: data.longitude,
+    source: data.source,
+    timeZone: query.timeZone,
+    days: data.daily ?? [],
+  }));
+}
+
+export function OPTIONS(request: NextRequest) {
+  return handlePreflight(request);
+}
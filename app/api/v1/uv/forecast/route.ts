@@ -0,0 +1,34 @@
+// UV API v1: forecast
+// UV index samples from now to the end of the requested horizon
+
+import { NextRequest } from "next/server";
+import {
+  API_V1_ENDPOINTS,
+  handlePreflight,
+  handleUVRequest,
+} from "../../../../services/publicApi";
+import { findMaxUV } from "../../../../services/types";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/v1/uv/forecast?lat=&lng=[&alt=][&provider=][&days=][&interval=]
+ */
+export async function GET(request: NextRequest) {
+  return handleUVRequest(request, API_V1_ENDPOINTS.forecast, (data, query) => {
+    const hourly = data.hourlyForecast ?? [];
+    return {
+      latitude: data.latitude,
+      longitude: data.longitude,
+      source: data.source,
+      intervalMinutes: query.forecast.intervalMinutes,
+      // Peak over the whole horizon, not just the first day
+      ...findMaxUV(hourly),
+      hourly,
+    };
+  });
+}
+
+export function OPTIONS(request: NextRequest) {
+  return handlePreflight(request);
+}
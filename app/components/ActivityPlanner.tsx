@@ -0,0 +1,253 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNow } from "../hooks/useNow";
+import { useTranslation } from "../hooks/useTranslation";
+import {
+  ACTIVITY_DURATIONS,
+  PLANNER_STEP_MINUTES,
+  planActivity,
+} from "../services/activityPlanner";
+import { formatDay, formatTime } from "../services/i18n";
+import { getUserLocation, reverseLookup } from "../services/locationService";
+import {
+  DEFAULT_SKIN_SETTINGS,
+  SkinSettings,
+  loadSkinSettings,
+  saveSkinSettings,
+} from "../services/skinSettings";
+import { LocationData, UVData, UVError } from "../services/types";
+import {
+  SurfaceType,
+  adjustUVData,
+  loadSurface,
+} from "../services/uvAdjustment";
+import { fetchUVData } from "../services/uvApiClient";
+import { describeUVError, toUVError } from "../services/uvErrors";
+import LocationPicker from "./LocationPicker";
+import SkinTypeSettings from "./SkinTypeSettings";
+
+// Limits offered for the highest acceptable UV index
+const MAX_UV_OPTIONS = [2, 3, 4, 5, 6, 8];
+
+// Today and tomorrow, finely sampled so the doses follow the forecast closely
+const PLANNER_FORECAST = { days: 2, intervalMinutes: 15 };
+
+const STEP_MS = PLANNER_STEP_MINUTES * 60 * 1000;
+
+export default function ActivityPlanner() {
+  const { locale, t } = useTranslation();
+  const now = useNow();
+  const [location, setLocation] = useState<LocationData | null>(null);
+  const [uvData, setUvData] = useState<UVData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<UVError | null>(null);
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  // null means any UV is acceptable
+  const [maxUvIndex, setMaxUvIndex] = useState<number | null>(null);
+  const [skinSettings, setSkinSettings] = useState<SkinSettings>(
+    DEFAULT_SKIN_SETTINGS
+  );
+  const [surface, setSurface] = useState<SurfaceType>("none");
+
+  // Saved settings are only available in the browser, so load after mount
+  useEffect(() => {
+    setSkinSettings(loadSkinSettings());
+    setSurface(loadSurface());
+  }, []);
+
+  const updateSkinSettings = (settings: SkinSettings) => {
+    setSkinSettings(settings);
+    saveSkinSettings(settings);
+  };
+
+  // Aborts the request in flight when a new one starts or on unmount
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const loadForecast = useCallback(async (selected: LocationData) => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    setLocation(selected);
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchUVData(selected, {
+        ...PLANNER_FORECAST,
+        signal: controller.signal,
+      });
+      setUvData(result.data);
+      setError(result.data ? null : result.error ?? null);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setUvData(null);
+      setError(toUVError(err));
+    }
+    setLoading(false);
+  }, []);
+
+  const locateUser = async () => {
+    try {
+      await loadForecast(await reverseLookup(await getUserLocation(), locale));
+    } catch (err) {
+      setError(toUVError(err));
+    }
+  };
+
+  const timeZone =
+    uvData?.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  // The first start time the planner would try; it only moves on every step,
+  // so the plans are not worked out again on every tick of the clock
+  const from = Math.ceil(now / STEP_MS) * STEP_MS;
+
+  // Plan from the forecast adjusted for the user's surroundings, as shown on
+  // the main page
+  const plans = useMemo(() => {
+    if (!uvData) return [];
+
+    const { data } = adjustUVData(uvData, {
+      surface,
+      altitude: location?.altitude,
+    });
+    return planActivity(data.hourlyForecast ?? [], {
+      durationMinutes,
+      from,
+      timeZone,
+      maxUvIndex: maxUvIndex ?? undefined,
+      skinType: skinSettings.skinType,
+      spf: skinSettings.spf,
+    });
+  }, [
+    uvData,
+    surface,
+    location,
+    durationMinutes,
+    from,
+    timeZone,
+    maxUvIndex,
+    skinSettings,
+  ]);
+
+  // Format a duration in minutes for display
+  const formatDuration = (minutes: number) =>
+    minutes < 60
+      ? t("duration.minutes", { minutes })
+      : t("duration.hours", {
+          hours: Math.floor(minutes / 60),
+          minutes: minutes % 60,
+        });
+
+  const formatDayLabel = (date: string, index: number) =>
+    index === 0
+      ? t("display.today")
+      : index === 1
+      ? t("planner.tomorrow")
+      : formatDay(date, locale);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto">
+      <LocationPicker onSelect={loadForecast} onUseMyLocation={locateUser} />
+
+      <div className="bg-white rounded-xl shadow-md p-4 grid gap-4 text-sm">
+        <div className="grid grid-cols-2 gap-4">
+          <label className="flex flex-col gap-1">
+            <span className="text-gray-600">{t("planner.duration")}</span>
+            <select
+              className="border rounded px-2 py-1"
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(Number(e.target.value))}
+            >
+              {ACTIVITY_DURATIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {formatDuration(minutes)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1">
+            <span className="text-gray-600">{t("planner.maxUv")}</span>
+            <select
+              className="border rounded px-2 py-1"
+              value={maxUvIndex ?? ""}
+              onChange={(e) =>
+                setMaxUvIndex(e.target.value ? Number(e.target.value) : null)
+              }
+            >
+              <option value="">{t("planner.noLimit")}</option>
+              {MAX_UV_OPTIONS.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <SkinTypeSettings
+          settings={skinSettings}
+          onChange={updateSkinSettings}
+        />
+      </div>
+
+      <div className="mt-6">
+        {error ? (
+          <p className="text-center text-red-600">
+            {describeUVError(error, locale).message}
+          </p>
+        ) : loading ? (
+          <p className="text-center text-gray-600">{t("planner.loading")}</p>
+        ) : !location || !uvData ? (
+          <p className="text-center text-gray-600">{t("planner.prompt")}</p>
+        ) : (
+          <div className="grid gap-4">
+            <p className="text-xs text-gray-500">
+              {location.address ??
+                `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`}
+            </p>
+            {plans.map((plan, i) => (
+              <section
+                key={plan.date}
+                className="bg-white rounded-xl shadow-md p-4 text-sm"
+              >
+                <h2 className="font-semibold mb-2">
+                  {formatDayLabel(plan.date, i)}
+                </h2>
+                {plan.slots.length === 0 ? (
+                  <p className="text-gray-600">{t("planner.noSlot")}</p>
+                ) : (
+                  <ol className="grid gap-1">
+                    {plan.slots.map((slot, rank) => (
+                      <li
+                        key={slot.start}
+                        className={
+                          rank === 0 ? "font-semibold" : "text-gray-600"
+                        }
+                      >
+                        {rank === 0 &&
+                          `${t("planner.best", {
+                            duration: formatDuration(durationMinutes),
+                          })} `}
+                        {t("planner.slot", {
+                          start: formatTime(slot.start, locale, timeZone),
+                          end: formatTime(slot.end, locale, timeZone),
+                          dose: slot.doseSed.toFixed(1),
+                          peak: slot.peakUvIndex.toFixed(1),
+                        })}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+            ))}
+            <p className="text-xs text-gray-500">{t("planner.sedHint")}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
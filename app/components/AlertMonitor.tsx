@@ -0,0 +1,9 @@
+"use client";
+
+import { useUVAlerts } from "../hooks/useUVAlerts";
+
+// Checks the saved UV alert rules in the background on every page
+export default function AlertMonitor() {
+  useUVAlerts();
+  return null;
+}
@@ -0,0 +1,297 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslation } from "../hooks/useTranslation";
+import { AlertRule } from "../services/alertRules";
+import {
+  createDailySummaryRule,
+  createThresholdRule,
+  loadAlertRules,
+  saveAlertRules,
+} from "../services/alertStorage";
+import { getUserLocation, reverseLookup } from "../services/locationService";
+import {
+  isNotificationSupported,
+  registerServiceWorker,
+  requestNotificationPermission,
+} from "../services/notifications";
+import { LocationData, UVError } from "../services/types";
+import { describeUVError, toUVError } from "../services/uvErrors";
+import LocationPicker from "./LocationPicker";
+
+// Lead times offered for threshold alerts, in minutes
+const LEAD_TIME_OPTIONS = [30, 60, 120, 180];
+
+export default function AlertRulesPanel() {
+  const { locale, t } = useTranslation();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [permission, setPermission] = useState<NotificationPermission | null>(
+    null
+  );
+  const [pending, setPending] = useState<LocationData | null>(null);
+  const [pendingName, setPendingName] = useState("");
+  const [pendingType, setPendingType] = useState<AlertRule["type"]>("threshold");
+  const [locateError, setLocateError] = useState<UVError | null>(null);
+
+  useEffect(() => {
+    setRules(loadAlertRules());
+    if (isNotificationSupported()) {
+      setPermission(Notification.permission);
+    }
+  }, []);
+
+  const update = (next: AlertRule[]) => {
+    setRules(next);
+    saveAlertRules(next);
+  };
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    update(
+      rules.map((rule) =>
+        rule.id === id ? ({ ...rule, ...changes } as AlertRule) : rule
+      )
+    );
+  };
+
+  const enableNotifications = async () => {
+    setPermission(await requestNotificationPermission());
+    await registerServiceWorker();
+  };
+
+  const choosePending = (location: LocationData) => {
+    setLocateError(null);
+    setPending(location);
+    setPendingName(location.address ?? "");
+  };
+
+  const chooseUserLocation = async () => {
+    try {
+      choosePending(await reverseLookup(await getUserLocation(), locale));
+    } catch (err) {
+      setLocateError(toUVError(err));
+    }
+  };
+
+  const addPending = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pending || !pendingName.trim()) return;
+
+    const name = pendingName.trim();
+    update([
+      ...rules,
+      pendingType === "threshold"
+        ? createThresholdRule(name, pending)
+        : createDailySummaryRule(name, pending),
+    ]);
+    setPending(null);
+    setPendingName("");
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto">
+      {permission === null ? (
+        <p className="mb-4 text-sm text-gray-600">{t("alerts.unsupported")}</p>
+      ) : permission !== "granted" ? (
+        <div className="mb-4 p-3 rounded bg-yellow-50 text-sm text-yellow-800 flex items-center justify-between gap-4">
+          <span>
+            {permission === "denied" ? t("alerts.blocked") : t("alerts.allow")}
+          </span>
+          {permission === "default" && (
+            <button
+              type="button"
+              className="px-3 py-1 rounded bg-indigo-500 text-white hover:bg-indigo-600"
+              onClick={enableNotifications}
+            >
+              {t("alerts.enable")}
+            </button>
+          )}
+        </div>
+      ) : null}
+
+      <LocationPicker
+        onSelect={choosePending}
+        onUseMyLocation={chooseUserLocation}
+      />
+      {locateError && (
+        <p className="mb-4 text-sm text-red-600">
+          {describeUVError(locateError, locale).message}
+        </p>
+      )}
+
+      {pending && (
+        <form
+          className="mb-4 flex gap-2 items-center text-sm"
+          onSubmit={addPending}
+        >
+          <input
+            className="flex-1 border rounded px-3 py-2"
+            placeholder={t("alerts.namePlaceholder")}
+            aria-label={t("alerts.name")}
+            value={pendingName}
+            onChange={(e) => setPendingName(e.target.value)}
+          />
+          <select
+            className="border rounded px-2 py-2"
+            aria-label={t("alerts.type")}
+            value={pendingType}
+            onChange={(e) =>
+              setPendingType(e.target.value as AlertRule["type"])
+            }
+          >
+            <option value="threshold">{t("alerts.threshold")}</option>
+            <option value="daily-summary">{t("alerts.dailySummary")}</option>
+          </select>
+          <button
+            type="submit"
+            className="px-3 py-2 rounded bg-indigo-500 text-white hover:bg-indigo-600"
+          >
+            {t("alerts.add")}
+          </button>
+        </form>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="text-center text-gray-600">{t("alerts.empty")}</p>
+      ) : (
+        <ul className="grid gap-4">
+          {rules.map((rule) => (
+            <li
+              key={rule.id}
+              className="bg-white rounded-xl shadow-md p-4 text-sm"
+            >
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <p className="font-semibold">{rule.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {rule.type === "threshold"
+                      ? t("alerts.thresholdAlert")
+                      : t("alerts.dailySummary")}
+                    {rule.location.address && ` · ${rule.location.address}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) =>
+                        updateRule(rule.id, { enabled: e.target.checked })
+                      }
+                    />
+                    {t("alerts.enabled")}
+                  </label>
+                  <button
+                    type="button"
+                    className="text-xs text-gray-500 hover:text-red-600"
+                    onClick={() =>
+                      update(rules.filter((other) => other.id !== rule.id))
+                    }
+                    aria-label={t("common.removeNamed", { name: rule.name })}
+                  >
+                    {t("common.remove")}
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {rule.type === "threshold" ? (
+                  <>
+                    <label className="flex flex-col gap-1">
+                      <span className="text-gray-600">
+                        {t("alerts.atOrAbove")}
+                      </span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={15}
+                        className="border rounded px-2 py-1"
+                        value={rule.threshold}
+                        onChange={(e) =>
+                          updateRule(rule.id, {
+                            threshold: Number(e.target.value),
+                          })
+                        }
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      <span className="text-gray-600">
+                        {t("alerts.leadTime")}
+                      </span>
+                      <select
+                        className="border rounded px-2 py-1"
+                        value={rule.leadTimeMinutes}
+                        onChange={(e) =>
+                          updateRule(rule.id, {
+                            leadTimeMinutes: Number(e.target.value),
+                          })
+                        }
+                      >
+                        {LEAD_TIME_OPTIONS.map((minutes) => (
+                          <option key={minutes} value={minutes}>
+                            {minutes < 60
+                              ? t("duration.minutes", { minutes })
+                              : t("duration.wholeHours", {
+                                  hours: minutes / 60,
+                                })}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </>
+                ) : (
+                  <label className="flex flex-col gap-1">
+                    <span className="text-gray-600">{t("alerts.sendAt")}</span>
+                    <input
+                      type="time"
+                      className="border rounded px-2 py-1"
+                      value={rule.time}
+                      onChange={(e) =>
+                        updateRule(rule.id, { time: e.target.value })
+                      }
+                    />
+                  </label>
+                )}
+
+                <label className="flex flex-col gap-1">
+                  <span className="text-gray-600">{t("alerts.quietFrom")}</span>
+                  <input
+                    type="time"
+                    className="border rounded px-2 py-1"
+                    value={rule.quietHours?.start ?? ""}
+                    onChange={(e) =>
+                      updateRule(rule.id, {
+                        quietHours: e.target.value
+                          ? {
+                              start: e.target.value,
+                              end: rule.quietHours?.end ?? "07:00",
+                            }
+                          : undefined,
+                      })
+                    }
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-gray-600">{t("alerts.quietUntil")}</span>
+                  <input
+                    type="time"
+                    className="border rounded px-2 py-1"
+                    value={rule.quietHours?.end ?? ""}
+                    disabled={!rule.quietHours}
+                    onChange={(e) =>
+                      rule.quietHours &&
+                      updateRule(rule.id, {
+                        quietHours: { ...rule.quietHours, end: e.target.value },
+                      })
+                    }
+                  />
+                </label>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="mt-4 text-xs text-gray-500">{t("alerts.checkHint")}</p>
+    </div>
+  );
+}
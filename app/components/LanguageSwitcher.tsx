@@ -0,0 +1,26 @@
+"use client";
+
+import { useTranslation } from "../hooks/useTranslation";
+import { LOCALE_NAMES, SUPPORTED_LOCALES, isLocale } from "../services/i18n";
+
+// Language picker shown in the corner of every page
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useTranslation();
+
+  return (
+    <label className="flex items-center gap-1">
+      <span className="sr-only">{t("language.label")}</span>
+      <select
+        className="border rounded px-1 py-0.5 bg-white"
+        value={locale}
+        onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+      >
+        {SUPPORTED_LOCALES.map((option) => (
+          <option key={option} value={option} lang={option}>
+            {LOCALE_NAMES[option]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
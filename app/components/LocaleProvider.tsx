@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LocaleContext } from "../hooks/useTranslation";
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  loadLocale,
+  saveLocale,
+} from "../services/i18n";
+
+// Holds the user's language for every page and keeps <html lang> in step.
+// Given a fixed locale, e.g. by an embedded widget, it provides that one
+// instead and leaves the user's choice alone
+export default function LocaleProvider({
+  children,
+  locale: fixed,
+}: {
+  children: React.ReactNode;
+  locale?: Locale;
+}) {
+  const [chosen, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+  const locale = fixed ?? chosen;
+
+  // The saved choice is only available in the browser, so load after mount
+  useEffect(() => {
+    if (!fixed) setLocaleState(loadLocale());
+  }, [fixed]);
+
+  useEffect(() => {
+    if (!fixed) document.documentElement.lang = locale;
+  }, [fixed, locale]);
+
+  const setLocale = (next: Locale) => {
+    if (fixed) return;
+    setLocaleState(next);
+    saveLocale(next);
+  };
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
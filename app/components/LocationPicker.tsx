@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslation } from "../hooks/useTranslation";
+import {
+  Place,
+  formatPlace,
+  parseCoordinates,
+  placeToLocation,
+  searchPlaces,
+} from "../services/locationService";
+import { LocationData } from "../services/types";
+
+interface LocationPickerProps {
+  onSelect: (location: LocationData) => void;
+  // Called when the user asks to use their device location again
+  onUseMyLocation: () => void;
+}
+
+export default function LocationPicker({
+  onSelect,
+  onUseMyLocation,
+}: LocationPickerProps) {
+  const { locale, t } = useTranslation();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<Place[]>([]);
+  const [showManual, setShowManual] = useState(false);
+  const [lat, setLat] = useState("");
+  const [lng, setLng] = useState("");
+  const [manualError, setManualError] = useState<string | null>(null);
+
+  // Search the place catalogue as the user types
+  useEffect(() => {
+    let cancelled = false;
+
+    searchPlaces(query).then((places) => {
+      if (!cancelled) setResults(places);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  const selectPlace = (place: Place) => {
+    setQuery("");
+    onSelect(placeToLocation(place));
+  };
+
+  const submitCoordinates = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = parseCoordinates(lat, lng, locale);
+
+    if ("error" in result) {
+      setManualError(result.error);
+      return;
+    }
+
+    setManualError(null);
+    onSelect(result.location);
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto md:max-w-2xl mb-4 text-sm">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <input
+            type="search"
+            className="w-full border rounded px-3 py-2"
+            placeholder={t("picker.search")}
+            aria-label={t("picker.search")}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          {results.length > 0 && (
+            <ul className="absolute z-10 mt-1 w-full bg-white border rounded shadow">
+              {results.map((place) => (
+                <li key={formatPlace(place)}>
+                  <button
+                    type="button"
+                    className="w-full text-left px-3 py-2 hover:bg-gray-100"
+                    onClick={() => selectPlace(place)}
+                  >
+                    {formatPlace(place)}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <button
+          type="button"
+          className="px-3 py-2 rounded bg-indigo-500 text-white hover:bg-indigo-600"
+          onClick={onUseMyLocation}
+        >
+          {t("picker.myLocation")}
+        </button>
+      </div>
+
+      <button
+        type="button"
+        className="mt-2 text-xs text-indigo-600 hover:underline"
+        onClick={() => setShowManual(!showManual)}
+      >
+        {showManual
+          ? t("picker.hideCoordinates")
+          : t("picker.showCoordinates")}
+      </button>
+
+      {showManual && (
+        <form className="mt-2 flex gap-2 items-start" onSubmit={submitCoordinates}>
+          <input
+            className="w-28 border rounded px-2 py-1"
+            placeholder={t("picker.latitude")}
+            aria-label={t("picker.latitude")}
+            inputMode="decimal"
+            value={lat}
+            onChange={(e) => setLat(e.target.value)}
+          />
+          <input
+            className="w-28 border rounded px-2 py-1"
+            placeholder={t("picker.longitude")}
+            aria-label={t("picker.longitude")}
+            inputMode="decimal"
+            value={lng}
+            onChange={(e) => setLng(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="px-3 py-1 rounded bg-gray-200 hover:bg-gray-300"
+          >
+            {t("picker.go")}
+          </button>
+        </form>
+      )}
+      {manualError && <p className="mt-1 text-xs text-red-600">{manualError}</p>}
+    </div>
+  );
+}
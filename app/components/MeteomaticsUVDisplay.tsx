@@ -1,229 +1,716 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAutoRefresh } from "../hooks/useAutoRefresh";
+import { useNow } from "../hooks/useNow";
+import { useSeverityPalette } from "../hooks/useSeverityPalette";
+import { useTranslation } from "../hooks/useTranslation";
+import { getExportUrls } from "../services/forecastExport";
+import { formatDay, formatTime } from "../services/i18n";
+import { getUserLocation, reverseLookup } from "../services/locationService";
+import {
+  DEFAULT_SKIN_SETTINGS,
+  SkinSettings,
+  loadSkinSettings,
+  saveSkinSettings,
+} from "../services/skinSettings";
+import { estimateBurnTime } from "../services/skinType";
 import {
   LocationData,
-  MeteomaticsUVData,
-  getUserLocation,
-  getMeteomaticsUVIndex,
-} from "../services/meteomaticsService";
-
-// Helper function to determine UV index severity
-const getUVSeverity = (uvIndex: number): { level: string; color: string } => {
-  if (uvIndex < 3) return { level: "Low", color: "bg-green-500" };
-  if (uvIndex < 6) return { level: "Moderate", color: "bg-yellow-500" };
-  if (uvIndex < 8) return { level: "High", color: "bg-orange-500" };
-  if (uvIndex < 11) return { level: "Very High", color: "bg-red-500" };
-  return { level: "Extreme", color: "bg-purple-600" };
-};
-
-export default function MeteomaticsUVDisplay() {
-  const [uvData, setUvData] = useState<MeteomaticsUVData | null>(null);
+  ProviderAttempt,
+  UVData,
+  UVError,
+} from "../services/types";
+import {
+  DEFAULT_PROTECTION_THRESHOLD,
+  getProtectionIntervals,
+} from "../services/sunProtection";
+import {
+  SURFACE_TYPES,
+  SurfaceType,
+  adjustUVData,
+  findNearestSample,
+  getAdjustmentFactors,
+  loadSurface,
+  saveSurface,
+} from "../services/uvAdjustment";
+import { fetchUVData } from "../services/uvApiClient";
+import { describeUVError, toUVError } from "../services/uvErrors";
+import type { WidgetLayout } from "../services/uvWidget";
+import {
+  MAX_FORECAST_DAYS,
+  createUVExposure,
+  getLocalDate,
+  getSampleIntervalMs,
+  interpolateUVIndex,
+} from "../services/uvForecast";
+import {
+  UVSeverityLevel,
+  getActionLabel,
+  getSeverityLabel,
+} from "../services/uvSeverity";
+import LocationPicker from "./LocationPicker";
+import SkinTypeSettings from "./SkinTypeSettings";
+import UVForecastChart from "./UVForecastChart";
+
+interface MeteomaticsUVDisplayProps {
+  // Refresh interval; defaults to the spacing of the forecast samples
+  refreshIntervalMinutes?: number;
+  // Location to show instead of the user's, without a picker; set by the
+  // embeddable widget
+  fixedLocation?: LocationData;
+  // Compact shows the current reading only
+  layout?: WidgetLayout;
+}
+
+// Chart colours of the forecast and, when adjusted, of the reported values
+const FORECAST_COLOR = "#4f46e5";
+const REPORTED_COLOR = "#6b7280";
+
+export default function MeteomaticsUVDisplay({
+  refreshIntervalMinutes,
+  fixedLocation,
+  layout = "full",
+}: MeteomaticsUVDisplayProps = {}) {
+  const compact = layout === "compact";
+  const { locale, t } = useTranslation();
+  const { severityOf } = useSeverityPalette();
+  const [uvData, setUvData] = useState<UVData | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  // Fetch time of data the service worker served from its offline cache
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [failedAttempts, setFailedAttempts] = useState<ProviderAttempt[]>([]);
   const [location, setLocation] = useState<LocationData | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<UVError | null>(null);
+  const [selectedDayIndex, setSelectedDayIndex] = useState(0);
   const [selectedHourIndex, setSelectedHourIndex] = useState<number | null>(
     null
   );
+  const [skinSettings, setSkinSettings] = useState<SkinSettings>(
+    DEFAULT_SKIN_SETTINGS
+  );
+  const [surface, setSurface] = useState<SurfaceType>("none");
 
+  // Saved settings are only available in the browser, so load after mount
   useEffect(() => {
-    async function fetchData() {
-      try {
-        setLoading(true);
-        setError(null);
+    setSkinSettings(loadSkinSettings());
+    setSurface(loadSurface());
+  }, []);
 
-        // Get user's location
-        const userLocation = await getUserLocation();
-        setLocation(userLocation);
+  const updateSkinSettings = (settings: SkinSettings) => {
+    setSkinSettings(settings);
+    saveSkinSettings(settings);
+  };
 
-        // Fetch data from Meteomatics API
-        const data = await getMeteomaticsUVIndex(userLocation);
-        if (!data) {
-          throw new Error("Unable to fetch UV index data from Meteomatics");
+  const updateSurface = (value: SurfaceType) => {
+    setSurface(value);
+    saveSurface(value);
+  };
+
+  // Language of looked up addresses, read when a lookup finishes so a
+  // language change does not start the location over
+  const localeRef = useRef(locale);
+  useEffect(() => {
+    localeRef.current = locale;
+  }, [locale]);
+
+  // Aborts the request in flight when a new one starts or the component unmounts
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  // Fetch UV data for a location picked by search, coordinates or geolocation.
+  // Background refreshes keep the current view and, if they fail, leave the
+  // existing data in place for the staleness indicator to flag
+  const loadUVData = useCallback(
+    async (selected: LocationData, background = false) => {
+      requestRef.current?.abort();
+      const controller = new AbortController();
+      requestRef.current = controller;
+
+      try {
+        if (!background) {
+          setLoading(true);
+          setError(null);
+          setLocation(selected);
+          setSelectedDayIndex(0);
+          setSelectedHourIndex(null);
         }
 
-        setUvData(data);
+        // Fetch data from the first provider in the priority chain that answers
+        const result = await fetchUVData(selected, {
+          days: MAX_FORECAST_DAYS,
+          signal: controller.signal,
+        });
+        if (background && !result.data) return;
+        setFailedAttempts(result.attempts);
+
+        // Never fall back to an old or default reading when the lookup failed
+        setUvData(result.data);
+        setCachedAt(result.cachedAt ?? null);
+        if (result.data) {
+          setLastUpdated(
+            result.cachedAt ? Date.parse(result.cachedAt) : Date.now()
+          );
+        } else if (result.error) {
+          setError(result.error);
+        }
         setLoading(false);
       } catch (err) {
-        setError(
-          err instanceof Error ? err.message : "An unknown error occurred"
-        );
+        if (controller.signal.aborted || background) return;
+        setUvData(null);
+        setError(toUVError(err));
         setLoading(false);
       }
+    },
+    []
+  );
+
+  // Get user's location, leaving the picker as a way out if it is unavailable
+  const locateUser = useCallback(async () => {
+    let userLocation: LocationData;
+
+    try {
+      setLoading(true);
+      userLocation = await reverseLookup(
+        await getUserLocation(),
+        localeRef.current
+      );
+    } catch (err) {
+      setError(toUVError(err));
+      setLoading(false);
+      return;
     }
 
-    fetchData();
-  }, []);
+    await loadUVData(userLocation);
+  }, [loadUVData]);
+
+  useEffect(() => {
+    if (!fixedLocation) {
+      locateUser();
+      return;
+    }
+    // Name the place after the nearest known one unless a name was given
+    reverseLookup(fixedLocation, localeRef.current)
+      .catch(() => fixedLocation)
+      .then((selected) => loadUVData(selected));
+  }, [fixedLocation, locateUser, loadUVData]);
+
+  // Keep the reading current: refresh on the forecast interval, and as soon
+  // as the connection comes back, and interpolate the hourly forecast in
+  // between
+  const now = useNow();
+  const refreshIntervalMs = refreshIntervalMinutes
+    ? refreshIntervalMinutes * 60 * 1000
+    : getSampleIntervalMs(uvData?.hourlyForecast ?? []);
+  useAutoRefresh(
+    () => location && loadUVData(location, true),
+    refreshIntervalMs,
+    Boolean(uvData && location)
+  );
+
+  // Correct the reported values for altitude and surface reflection, and
+  // prepare the result for the burn time. Both only change with the data or
+  // the settings, not with the clock that re-renders every minute
+  const altitude = location?.altitude;
+  const adjustment = useMemo(
+    () => (uvData ? adjustUVData(uvData, { surface, altitude }) : null),
+    [uvData, surface, altitude]
+  );
+  const exposure = useMemo(
+    () => createUVExposure(adjustment?.data.hourlyForecast ?? []),
+    [adjustment]
+  );
+
+  const picker = fixedLocation ? null : (
+    <LocationPicker onSelect={loadUVData} onUseMyLocation={locateUser} />
+  );
+  // Links leave an embedded widget rather than navigating inside its frame
+  const linkTarget = fixedLocation ? "_blank" : undefined;
 
   if (loading) {
     return (
-      <div className="flex flex-col items-center justify-center p-8">
-        <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-        <p className="mt-4 text-lg">Loading UV index data...</p>
-      </div>
+      <>
+        {picker}
+        <div className="flex flex-col items-center justify-center p-8">
+          <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+          <p className="mt-4 text-lg">{t("display.loading")}</p>
+        </div>
+      </>
     );
   }
 
   if (error) {
+    const { title, message } = describeUVError(error, locale);
+
     return (
-      <div className="bg-red-50 border border-red-200 rounded-lg p-6 max-w-md mx-auto">
-        <h2 className="text-xl font-bold text-red-700">Error</h2>
-        <p className="text-red-600 mt-2">{error}</p>
-      </div>
+      <>
+        {picker}
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 max-w-md mx-auto">
+          <h2 className="text-xl font-bold text-red-700">{title}</h2>
+          <p className="text-red-600 mt-2">{message}</p>
+          {error.provider && (
+            <p className="text-xs text-red-500 mt-2">
+              {error.provider}: {error.message}
+            </p>
+          )}
+        </div>
+      </>
     );
   }
 
-  if (!uvData) {
+  if (!uvData || !adjustment) {
     return (
-      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 max-w-md mx-auto">
-        <h2 className="text-xl font-bold text-yellow-700">No Data Available</h2>
-        <p className="text-yellow-600 mt-2">
-          Unable to retrieve UV index information from Meteomatics at this time.
-        </p>
-      </div>
+      <>
+        {picker}
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 max-w-md mx-auto">
+          <h2 className="text-xl font-bold text-yellow-700">
+            {t("display.noData.title")}
+          </h2>
+          <p className="text-yellow-600 mt-2">{t("display.noData.message")}</p>
+        </div>
+      </>
     );
   }
 
-  const { level, color } = getUVSeverity(uvData.uvIndex);
+  // Everything below works from the adjusted data
+  const { data, raw, adjusted } = adjustment;
+  const factors = getAdjustmentFactors(
+    raw,
+    findNearestSample(raw.hourlyForecast ?? [], new Date(now).toISOString()),
+    { surface, altitude }
+  );
 
-  // Format time for display
-  const formatTime = (timeString: string) => {
-    return new Date(timeString).toLocaleTimeString([], {
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-  };
+  // Prefer a value interpolated for right now over the reading at fetch time
+  const currentUvIndex =
+    interpolateUVIndex(data.hourlyForecast ?? [], now) ?? data.uvIndex;
+  const rawUvIndex =
+    interpolateUVIndex(raw.hourlyForecast ?? [], now) ?? raw.uvIndex;
+  const { label, advice, icon, actions, colors } = severityOf(currentUvIndex);
+
+  // Data counts as stale once two refreshes have been missed
+  const minutesSinceUpdate =
+    lastUpdated !== null ? Math.floor((now - lastUpdated) / 60000) : null;
+  const isStale =
+    lastUpdated !== null && now - lastUpdated > 2 * refreshIntervalMs;
+
+  // Format time for display, as the clock reads at the location
+  const formatLocalTime = (time: string) =>
+    formatTime(time, locale, data.timeZone);
+
+  // Format a YYYY-MM-DD local date as a short day label
+  const formatDayLabel = (date: string, index: number) =>
+    index === 0 ? t("display.today") : formatDay(date, locale);
+
+  // Translate a severity level key such as "Very High"
+  const levelLabel = (level: string) =>
+    getSeverityLabel(level as UVSeverityLevel, locale);
+
+  // Get the selected day and the forecast samples that fall on it
+  const days = data.daily ?? [];
+  const selectedDay = days[selectedDayIndex] ?? null;
+  const onSelectedDay = (forecast: UVData["hourlyForecast"] = []) =>
+    selectedDay && data.timeZone
+      ? forecast.filter(
+          (hour) =>
+            getLocalDate(hour.time, data.timeZone!) === selectedDay.date
+        )
+      : forecast;
+  const dayForecast = onSelectedDay(data.hourlyForecast);
+  const rawDayForecast = onSelectedDay(raw.hourlyForecast);
+  const protectionIntervals = getProtectionIntervals(dayForecast);
+  const maxUvIndex = selectedDay?.maxUvIndex ?? data.maxUvIndex;
+  const maxUvTime = selectedDay?.maxUvTime ?? data.maxUvTime;
 
   // Get selected hour data
   const selectedHourData =
-    selectedHourIndex !== null && uvData.hourlyForecast
-      ? uvData.hourlyForecast[selectedHourIndex]
-      : null;
+    selectedHourIndex !== null ? dayForecast[selectedHourIndex] : null;
+
+  // Estimate time to sunburn from the selected hour, or from now. The forecast
+  // may start slightly after now, in which case it starts from the first sample
+  const firstSample = data.hourlyForecast?.[0];
+  const exposureStart = selectedHourData
+    ? new Date(selectedHourData.time).getTime()
+    : Math.max(
+        now,
+        firstSample ? new Date(firstSample.time).getTime() : 0
+      );
+  const burnMinutes = skinSettings.skinType
+    ? estimateBurnTime(exposure, skinSettings.skinType, {
+        startTime: exposureStart,
+        spf: skinSettings.spf,
+      })
+    : null;
+
+  // Export links for the location; the data only renders in the browser
+  const exportUrls = location
+    ? getExportUrls(
+        window.location.origin,
+        location,
+        data.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+      )
+    : null;
+
+  // Format a factor for display, e.g. "1.15"
+  const formatFactor = (factor: number) => factor.toFixed(2);
+
+  // Format a duration in minutes for display
+  const formatDuration = (minutes: number) =>
+    minutes < 60
+      ? t("duration.minutes", { minutes })
+      : t("duration.hours", {
+          hours: Math.floor(minutes / 60),
+          minutes: minutes % 60,
+        });
 
   return (
-    <div className="w-full max-w-md mx-auto bg-white rounded-xl shadow-md overflow-hidden md:max-w-2xl">
-      <div className="p-8 w-full">
-        <div className="flex justify-between items-center">
-          <div className="uppercase tracking-wide text-sm text-indigo-500 font-semibold">
-            Current UV Index
-          </div>
-          <div className="text-xs text-gray-500">
-            {new Date(uvData.timestamp).toLocaleString()}
+    <>
+      {picker}
+      <div className="w-full max-w-md mx-auto bg-white dark:bg-gray-800 rounded-xl shadow-md overflow-hidden md:max-w-2xl">
+        <div className={`${compact ? "p-4" : "p-8"} w-full`}>
+          <div className="flex justify-between items-center">
+            <div className="uppercase tracking-wide text-sm text-indigo-500 font-semibold">
+              {t("display.current")}
+            </div>
+            <div
+              className={`text-xs ${
+                isStale
+                  ? "text-red-600 font-semibold"
+                  : "text-gray-500 dark:text-gray-400"
+              }`}
+            >
+              {minutesSinceUpdate === null || minutesSinceUpdate < 1
+                ? t("display.updatedNow")
+                : t("display.updatedAgo", { minutes: minutesSinceUpdate })}
+              {isStale && ` · ${t("display.stale")}`}
+            </div>
           </div>
-        </div>
 
-        <div className="mt-4 flex items-center justify-center">
-          <div
-            className={`${color} rounded-full w-32 h-32 flex items-center justify-center`}
-          >
-            <span className="text-4xl font-bold text-white">
-              {uvData.uvIndex.toFixed(1)}
-            </span>
-          </div>
-        </div>
+          {cachedAt && (
+            <div
+              className="mt-4 p-3 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-200"
+              role="status"
+            >
+              {t("display.offline", { time: formatLocalTime(cachedAt) })}
+            </div>
+          )}
 
-        <div className="mt-4 text-center">
-          <h2 className="text-xl font-bold">{level}</h2>
-          <p className="mt-1 text-gray-600">
-            {level === "Low" &&
-              "Low danger from UV rays. No protection needed."}
-            {level === "Moderate" &&
-              "Moderate risk from UV rays. Wear sunscreen."}
-            {level === "High" &&
-              "High risk from UV rays. Wear sunscreen and protective clothing."}
-            {level === "Very High" &&
-              "Very high risk from UV rays. Take extra precautions."}
-            {level === "Extreme" &&
-              "Extreme risk from UV rays. Avoid being outside during midday hours."}
-          </p>
-        </div>
+          {data.provider === "estimate" && (
+            <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-700">
+              {t("display.estimate")}
+            </div>
+          )}
 
-        {/* Display Max UV info if available */}
-        {uvData.maxUvIndex && uvData.maxUvTime && (
-          <div className="mt-4 border-t pt-4">
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <p className="text-sm text-gray-600">Max UV Today</p>
-                <p className="font-bold">{uvData.maxUvIndex.toFixed(1)}</p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">Max Time</p>
-                <p className="font-bold">{formatTime(uvData.maxUvTime)}</p>
-              </div>
+          <div className="mt-4 flex items-center justify-center">
+            <div
+              className="rounded-full w-32 h-32 flex items-center justify-center"
+              style={{ backgroundColor: colors.fill, color: colors.text }}
+            >
+              <span className="text-4xl font-bold">
+                {currentUvIndex.toFixed(1)}
+              </span>
             </div>
           </div>
-        )}
-
-        {/* Hourly forecast chart */}
-        {uvData.hourlyForecast && uvData.hourlyForecast.length > 0 && (
-          <div className="mt-6">
-            <h3 className="font-semibold text-sm mb-2">24-Hour UV Forecast</h3>
-            <div className="relative h-24 bg-gray-100 rounded-lg overflow-hidden">
-              {uvData.hourlyForecast.map((hour, i) => {
-                const { color } = getUVSeverity(hour.uvIndex);
-                const height = `${Math.min(100, (hour.uvIndex / 11) * 100)}%`;
-                return (
-                  <div
-                    key={i}
-                    className={`absolute bottom-0 ${color} cursor-pointer hover:opacity-80 transition-opacity border-r border-white`}
-                    style={{
-                      left: `${(i / uvData.hourlyForecast!.length) * 100}%`,
-                      width: `${100 / uvData.hourlyForecast!.length}%`,
-                      height,
-                    }}
-                    onClick={() => setSelectedHourIndex(i)}
-                    title={`${formatTime(hour.time)}: UV ${hour.uvIndex.toFixed(
-                      1
-                    )}`}
-                  />
-                );
-              })}
-            </div>
+          {adjusted && (
+            <p className="mt-2 text-center text-xs text-gray-600 dark:text-gray-300">
+              {t("adjust.reported", { value: rawUvIndex.toFixed(1) })}
+            </p>
+          )}
+
+          <div className="mt-4 text-center">
+            <h2 className="text-xl font-bold">
+              <span aria-hidden="true">{icon}</span> {label}
+            </h2>
+            <p className="mt-1 text-gray-600 dark:text-gray-300">{advice}</p>
+            <ul className="mt-2 flex flex-wrap justify-center gap-1 text-xs">
+              {actions.map((action) => (
+                <li
+                  key={action}
+                  className="bg-gray-100 dark:bg-gray-700 rounded px-2 py-0.5"
+                >
+                  {getActionLabel(action, locale)}
+                </li>
+              ))}
+            </ul>
+          </div>
 
-            {/* Time labels */}
-            <div className="flex justify-between mt-1 text-xs text-gray-600">
-              <span>{formatTime(uvData.hourlyForecast[0].time)}</span>
-              <span>
-                {formatTime(
-                  uvData.hourlyForecast[
-                    Math.floor(uvData.hourlyForecast.length / 2)
-                  ].time
+          {/* Adjustments for the user's surroundings */}
+          {!compact && (
+            <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-xs text-gray-700 dark:text-gray-200">
+              <label className="flex items-center gap-2">
+                <span className="font-semibold">{t("adjust.surface")}</span>
+                <select
+                  className="border rounded px-1 py-0.5 bg-white dark:bg-gray-800"
+                  value={surface}
+                  onChange={(e) => updateSurface(e.target.value as SurfaceType)}
+                >
+                  {SURFACE_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {t(`surface.${type}`)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <ul className="mt-2 space-y-0.5">
+                {factors.cloudCover !== undefined && (
+                  <li>
+                    {t("adjust.cloud", {
+                      cover: Math.round(factors.cloudCover),
+                    })}
+                  </li>
                 )}
-              </span>
-              <span>
-                {formatTime(
-                  uvData.hourlyForecast[uvData.hourlyForecast.length - 1].time
+                {factors.elevation !== 1 && (
+                  <li>
+                    {t("adjust.elevation", {
+                      altitude: Math.round(location?.altitude ?? 0),
+                      elevation: Math.round(raw.elevation ?? 0),
+                      factor: formatFactor(factors.elevation),
+                    })}
+                  </li>
                 )}
-              </span>
+                {factors.surface !== 1 && (
+                  <li>
+                    {t("adjust.reflection", {
+                      surface: t(`surface.${surface}`),
+                      factor: formatFactor(factors.surface),
+                    })}
+                  </li>
+                )}
+              </ul>
             </div>
+          )}
 
-            {/* Selected hour details */}
-            {selectedHourData && (
-              <div className="mt-3 p-3 bg-gray-50 rounded-lg text-sm">
-                <p className="font-semibold">
-                  {formatTime(selectedHourData.time)}:
-                  <span className="ml-1 font-bold">
-                    {selectedHourData.uvIndex.toFixed(1)}
-                  </span>
-                  <span className="ml-1 text-gray-600">
-                    ({getUVSeverity(selectedHourData.uvIndex).level})
+          {/* Display Max UV info if available */}
+          {maxUvIndex !== undefined && maxUvTime && (
+            <div className="mt-4 border-t pt-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    {t("display.maxUv", {
+                      day: selectedDay
+                        ? formatDayLabel(selectedDay.date, selectedDayIndex)
+                        : t("display.today"),
+                    })}
+                  </p>
+                  <p className="font-bold">{maxUvIndex.toFixed(1)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    {t("display.maxTime")}
+                  </p>
+                  <p className="font-bold">{formatLocalTime(maxUvTime)}</p>
+                </div>
+              </div>
+              {selectedDay && (
+                <p className="mt-2 text-xs text-gray-600 dark:text-gray-300">
+                  {Object.entries(selectedDay.hoursAbove)
+                    .filter(([, hours]) => hours > 0)
+                    .map(([level, hours]) =>
+                      t("display.hoursAbove", {
+                        hours,
+                        level: levelLabel(level),
+                      })
+                    )
+                    .join(" · ") ||
+                    t("display.noHoursAbove", { level: levelLabel("Low") })}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Sun protection window for the selected day */}
+          {!compact && dayForecast.length > 0 && (
+            <div className="mt-4 p-3 bg-indigo-50 dark:bg-indigo-950 rounded-lg text-sm">
+              {protectionIntervals.length > 0 ? (
+                <p>
+                  <span className="font-semibold">
+                    {t("display.protectionNeeded")}{" "}
                   </span>
+                  {protectionIntervals
+                    .map(
+                      ({ start, end }) =>
+                        `${formatLocalTime(start)}–${formatLocalTime(end)}`
+                    )
+                    .join(", ")}
                 </p>
-              </div>
-            )}
-          </div>
-        )}
+              ) : (
+                <p>
+                  {t("display.noProtection", {
+                    threshold: DEFAULT_PROTECTION_THRESHOLD,
+                  })}
+                </p>
+              )}
+            </div>
+          )}
 
-        {location && (
-          <div className="mt-4 text-xs text-gray-500">
-            Location: {location.lat.toFixed(4)}, {location.lng.toFixed(4)}
-          </div>
-        )}
+          {/* Day selector */}
+          {!compact && days.length > 1 && (
+            <div className="mt-6 flex gap-1 overflow-x-auto">
+              {days.map((day, i) => (
+                <button
+                  key={day.date}
+                  type="button"
+                  className={`px-2 py-1 rounded text-xs whitespace-nowrap ${
+                    i === selectedDayIndex
+                      ? "bg-indigo-500 text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                  }`}
+                  onClick={() => {
+                    setSelectedDayIndex(i);
+                    setSelectedHourIndex(null);
+                  }}
+                >
+                  {formatDayLabel(day.date, i)} · {day.maxUvIndex.toFixed(0)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Hourly forecast chart */}
+          {!compact && dayForecast.length > 0 && (
+            <div className="mt-6">
+              <h3 className="font-semibold text-sm mb-2">
+                {t("display.hourlyForecast")}
+              </h3>
+              <UVForecastChart
+                series={[
+                  {
+                    id: "uv",
+                    label: t(adjusted ? "adjust.adjusted" : "chart.uvIndex"),
+                    color: FORECAST_COLOR,
+                    data: dayForecast,
+                  },
+                  // Reported values for comparison when they were adjusted
+                  ...(adjusted
+                    ? [
+                        {
+                          id: "reported",
+                          label: t("adjust.raw"),
+                          color: REPORTED_COLOR,
+                          dashed: true,
+                          data: rawDayForecast,
+                        },
+                      ]
+                    : []),
+                ]}
+                label={t("display.hourlyForecast")}
+                now={now}
+                timeZone={data.timeZone}
+                selectedIndex={selectedHourIndex}
+                onSelect={setSelectedHourIndex}
+              />
+
+              {/* Legend, needed only when both lines are drawn */}
+              {adjusted && (
+                <ul className="flex gap-4 mt-2 text-xs text-gray-600 dark:text-gray-300">
+                  <li className="flex items-center gap-1">
+                    <span
+                      className="inline-block w-4 border-t-2"
+                      style={{ borderColor: FORECAST_COLOR }}
+                    />
+                    {t("adjust.adjusted")}
+                  </li>
+                  <li className="flex items-center gap-1">
+                    <span
+                      className="inline-block w-4 border-t-2 border-dashed"
+                      style={{ borderColor: REPORTED_COLOR }}
+                    />
+                    {t("adjust.raw")}
+                  </li>
+                </ul>
+              )}
 
-        <div className="mt-4 text-xs text-gray-500 italic text-center">
-          Powered by {uvData.source}
+              {/* Selected hour details */}
+              {selectedHourData && (
+                <div className="mt-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+                  <p className="font-semibold">
+                    {formatLocalTime(selectedHourData.time)}:
+                    <span className="ml-1 font-bold">
+                      {selectedHourData.uvIndex.toFixed(1)}
+                    </span>
+                    <span className="ml-1 text-gray-600 dark:text-gray-300">
+                      ({severityOf(selectedHourData.uvIndex).label})
+                    </span>
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Personal exposure estimate */}
+          {!compact && (
+            <div className="mt-6 border-t pt-4">
+              <h3 className="font-semibold text-sm mb-2">
+                {t("display.sunburnRisk")}
+              </h3>
+              <SkinTypeSettings
+                settings={skinSettings}
+                onChange={updateSkinSettings}
+              />
+              {skinSettings.skinType && (
+                <p className="mt-3 text-sm">
+                  {burnMinutes !== null ? (
+                    <>
+                      {t("display.timeToSunburn", {
+                        time: formatLocalTime(
+                          new Date(exposureStart).toISOString()
+                        ),
+                      })}{" "}
+                      <span className="font-bold">
+                        ~{formatDuration(burnMinutes)}
+                      </span>
+                    </>
+                  ) : (
+                    t("display.noSunburn")
+                  )}
+                </p>
+              )}
+            </div>
+          )}
+
+          {location && (
+            <div className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+              {t("display.location")}{" "}
+            {location.address
+              ? `${location.address} (${location.lat.toFixed(4)}, ${location.lng.toFixed(4)})`
+              : `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`}
+            </div>
+          )}
+
+          {!compact && exportUrls && (
+            <div className="mt-2 flex gap-4 text-xs">
+              <a
+                href={exportUrls.csv}
+                target={linkTarget}
+                className="text-indigo-600 hover:underline"
+              >
+                {t("display.downloadCsv")}
+              </a>
+              <a
+                href={exportUrls.subscribe}
+                target={linkTarget}
+                className="text-indigo-600 hover:underline"
+                title={t("display.subscribeHint")}
+              >
+                {t("display.subscribe")}
+              </a>
+            </div>
+          )}
+
+          <div className="mt-4 text-xs text-gray-500 dark:text-gray-400 italic text-center">
+            {t("display.poweredBy", { source: data.source })}
+            {failedAttempts.length > 0 && (
+              <span className="block mt-1">
+                {t("display.fallbackUsed")}{" "}
+                {failedAttempts
+                  .map(({ provider, error }) => `${provider} (${error.message})`)
+                  .join(", ")}
+              </span>
+            )}
+          </div>
         </div>
       </div>
-    </div>
+    </>
   );
 }
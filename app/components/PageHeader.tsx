@@ -0,0 +1,27 @@
+"use client";
+
+import Link from "next/link";
+import { useTranslation } from "../hooks/useTranslation";
+import { MessageKey } from "../services/i18n";
+
+// Title, description and way back to the main page, shared by the
+// secondary pages
+export default function PageHeader({
+  title,
+  description,
+}: {
+  title: MessageKey;
+  description: MessageKey;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <header className="w-full max-w-2xl mx-auto text-center">
+      <h1 className="text-3xl font-bold mb-2">{t(title)}</h1>
+      <p className="text-gray-600 mb-2">{t(description)}</p>
+      <Link href="/" className="text-sm text-indigo-600 hover:underline">
+        {t("page.back")}
+      </Link>
+    </header>
+  );
+}
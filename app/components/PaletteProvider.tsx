@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PaletteContext } from "../hooks/useSeverityPalette";
+import {
+  DEFAULT_PALETTE,
+  SeverityPaletteId,
+  loadPalette,
+  savePalette,
+} from "../services/uvSeverity";
+
+// Holds the user's severity colour palette for every page, or a fixed one,
+// e.g. for an embedded widget
+export default function PaletteProvider({
+  children,
+  palette: fixed,
+}: {
+  children: React.ReactNode;
+  palette?: SeverityPaletteId;
+}) {
+  const [chosen, setPaletteState] =
+    useState<SeverityPaletteId>(DEFAULT_PALETTE);
+  const palette = fixed ?? chosen;
+
+  // The saved choice is only available in the browser, so load after mount
+  useEffect(() => {
+    if (!fixed) setPaletteState(loadPalette());
+  }, [fixed]);
+
+  const setPalette = (next: SeverityPaletteId) => {
+    if (fixed) return;
+    setPaletteState(next);
+    savePalette(next);
+  };
+
+  return (
+    <PaletteContext.Provider value={{ palette, setPalette }}>
+      {children}
+    </PaletteContext.Provider>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { useSeverityPalette } from "../hooks/useSeverityPalette";
+import { useTranslation } from "../hooks/useTranslation";
+import { MessageKey } from "../services/i18n";
+import {
+  SEVERITY_PALETTES,
+  SeverityPaletteId,
+  isSeverityPalette,
+} from "../services/uvSeverity";
+
+// Picker for the colours the severity levels are shown in
+export default function PaletteSwitcher() {
+  const { palette, setPalette } = useSeverityPalette();
+  const { t } = useTranslation();
+
+  return (
+    <label className="flex items-center gap-1">
+      <span className="sr-only">{t("palette.label")}</span>
+      <select
+        className="border rounded px-1 py-0.5 bg-white"
+        value={palette}
+        onChange={(e) =>
+          isSeverityPalette(e.target.value) && setPalette(e.target.value)
+        }
+      >
+        {(Object.keys(SEVERITY_PALETTES) as SeverityPaletteId[]).map((id) => (
+          <option key={id} value={id}>
+            {t(`palette.${id}` as MessageKey)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,370 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNow } from "../hooks/useNow";
+import { useTranslation } from "../hooks/useTranslation";
+import { formatDay, formatTime } from "../services/i18n";
+import { getUserLocation, reverseLookup } from "../services/locationService";
+import {
+  alignForecasts,
+  compareProviders,
+} from "../services/providerComparison";
+import {
+  HourlyUVData,
+  LocationData,
+  UVError,
+  UVProviderId,
+  UVProviderInfo,
+} from "../services/types";
+import { fetchUVData, fetchUVProviders } from "../services/uvApiClient";
+import { getLocalDate } from "../services/uvForecast";
+import { describeUVError, toUVError } from "../services/uvErrors";
+import LocationPicker from "./LocationPicker";
+import UVForecastChart from "./UVForecastChart";
+
+// Lookup state for one provider
+interface ProviderResult {
+  forecast: HourlyUVData[] | null;
+  loading: boolean;
+  error: UVError | null;
+  // Time zone of the location, as looked up by the route
+  timeZone?: string;
+}
+
+// Line colours of the providers in the overlay chart, by provider order
+const SERIES_COLORS = ["#4f46e5", "#f97316", "#10b981", "#ec4899", "#0ea5e9"];
+
+export default function ProviderComparison() {
+  const { locale, t } = useTranslation();
+  const [providers, setProviders] = useState<UVProviderInfo[]>([]);
+  const [location, setLocation] = useState<LocationData | null>(null);
+  const [results, setResults] = useState<
+    Partial<Record<UVProviderId, ProviderResult>>
+  >({});
+  const [reference, setReference] = useState<UVProviderId | null>(null);
+  const [error, setError] = useState<UVError | null>(null);
+  const now = useNow();
+
+  // Aborts the lookups in flight when a new location is picked or on unmount
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchUVProviders(controller.signal)
+      .then((list) => {
+        setProviders(list);
+        setReference(list.find((provider) => provider.configured)?.id ?? null);
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          setError(toUVError(err));
+        }
+      });
+
+    return () => {
+      controller.abort();
+      requestRef.current?.abort();
+    };
+  }, []);
+
+  // Fetch every configured provider for the location in parallel
+  const compare = useCallback(
+    (selected: LocationData) => {
+      requestRef.current?.abort();
+      const controller = new AbortController();
+      requestRef.current = controller;
+
+      setError(null);
+      setLocation(selected);
+      const configured = providers.filter((provider) => provider.configured);
+      setResults(
+        Object.fromEntries(
+          configured.map((provider) => [
+            provider.id,
+            { forecast: null, loading: true, error: null },
+          ])
+        )
+      );
+
+      configured.forEach(async ({ id }) => {
+        let result: ProviderResult;
+        try {
+          const { data, error } = await fetchUVData(selected, {
+            provider: id,
+            signal: controller.signal,
+          });
+          result = data
+            ? {
+                forecast: data.hourlyForecast ?? [],
+                loading: false,
+                error: null,
+                timeZone: data.timeZone,
+              }
+            : {
+                forecast: null,
+                loading: false,
+                error: error ?? null,
+              };
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          result = {
+            forecast: null,
+            loading: false,
+            error: toUVError(err),
+          };
+        }
+
+        setResults((current) => ({ ...current, [id]: result }));
+      });
+    },
+    [providers]
+  );
+
+  const locateUser = async () => {
+    try {
+      compare(await reverseLookup(await getUserLocation(), locale));
+    } catch (err) {
+      setError(toUVError(err));
+    }
+  };
+
+  // Days are compared in the location's time zone, as on the main page
+  const timeZone =
+    Object.values(results).find((result) => result?.timeZone)?.timeZone ??
+    Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const forecasts = Object.fromEntries(
+    Object.entries(results).flatMap(([id, result]) =>
+      result?.forecast ? [[id, result.forecast]] : []
+    )
+  ) as Partial<Record<UVProviderId, HourlyUVData[]>>;
+  const aligned = alignForecasts(forecasts);
+  const compared = Object.keys(aligned.values) as UVProviderId[];
+  // Fall back to the first provider with data if the reference has none
+  const baseline =
+    reference && aligned.values[reference] ? reference : compared[0] ?? null;
+  const differences = baseline
+    ? compareProviders(aligned, baseline, timeZone)
+    : [];
+
+  const colorOf = (id: UVProviderId) =>
+    SERIES_COLORS[
+      providers.findIndex((provider) => provider.id === id) %
+        SERIES_COLORS.length
+    ];
+  const nameOf = (id: UVProviderId) =>
+    providers.find((provider) => provider.id === id)?.name ?? id;
+
+  // Weekday and time of a sample, as the clock reads at the location
+  const formatSampleTime = (time: string) =>
+    `${formatDay(getLocalDate(time, timeZone), locale)} ` +
+    formatTime(time, locale, timeZone);
+
+  const formatOffset = (minutes: number | null) => {
+    if (minutes === null) return "–";
+    if (Math.abs(minutes) < 1) return t("compare.sameTime");
+    const hours = Math.floor(Math.abs(minutes) / 60);
+    const rest = Math.round(Math.abs(minutes) % 60);
+    const span =
+      hours > 0
+        ? t("duration.hours", { hours, minutes: rest })
+        : t("duration.minutes", { minutes: rest });
+    return minutes > 0
+      ? t("compare.later", { span })
+      : t("compare.earlier", { span });
+  };
+
+  // One chart line per provider, the reference first
+  const series = [...compared]
+    .sort((a, b) => Number(b === baseline) - Number(a === baseline))
+    .map((id) => ({
+      id,
+      label: nameOf(id),
+      color: colorOf(id),
+      data: aligned.values[id]!.map((uvIndex, i) => ({
+        time: aligned.times[i],
+        uvIndex,
+      })),
+    }));
+
+  return (
+    <div className="w-full max-w-3xl mx-auto">
+      <LocationPicker onSelect={compare} onUseMyLocation={locateUser} />
+      {error && (
+        <p className="mb-4 text-sm text-red-600">
+          {describeUVError(error, locale).message}
+        </p>
+      )}
+
+      {!location ? (
+        <p className="text-center text-gray-600">{t("compare.prompt")}</p>
+      ) : (
+        <div className="grid gap-6">
+          <div className="bg-white rounded-xl shadow-md p-4 text-sm">
+            <p className="text-xs text-gray-500 mb-3">
+              {location.address ??
+                `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`}
+            </p>
+            <ul className="grid gap-1">
+              {providers.map((provider) => {
+                const result = results[provider.id];
+                return (
+                  <li key={provider.id} className="flex items-center gap-2">
+                    <span
+                      className="inline-block w-3 h-3 rounded-full"
+                      style={{ backgroundColor: colorOf(provider.id) }}
+                    />
+                    <span className="font-semibold">{provider.name}</span>
+                    <span className="text-gray-500">
+                      {!provider.configured
+                        ? t("compare.notConfigured")
+                        : result?.loading
+                        ? t("compare.loading")
+                        : result?.error
+                        ? describeUVError(result.error, locale).title
+                        : result && !result.forecast
+                        ? t("common.noData")
+                        : t("compare.samples", {
+                            count: result?.forecast?.length ?? 0,
+                          })}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          {aligned.times.length === 0 ? (
+            Object.values(results).some((result) => result?.loading) ? null : (
+              <p className="text-center text-gray-600">
+                {t("compare.noOverlap")}
+              </p>
+            )
+          ) : (
+            <>
+              <div className="bg-white rounded-xl shadow-md p-4">
+                <h3 className="font-semibold mb-2">{t("compare.overlay")}</h3>
+                <UVForecastChart
+                  series={series}
+                  label={t("compare.overlayLabel")}
+                  now={now}
+                  timeZone={timeZone}
+                />
+              </div>
+
+              <div className="bg-white rounded-xl shadow-md p-4 text-sm">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-semibold">
+                    {t("compare.disagreement")}
+                  </h3>
+                  <label className="flex items-center gap-2 text-xs">
+                    {t("compare.comparedWith")}
+                    <select
+                      className="border rounded px-2 py-1"
+                      value={baseline ?? ""}
+                      onChange={(e) =>
+                        setReference(e.target.value as UVProviderId)
+                      }
+                    >
+                      {compared.map((id) => (
+                        <option key={id} value={id}>
+                          {nameOf(id)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                {differences.length === 0 ? (
+                  <p className="text-gray-500">{t("compare.needTwo")}</p>
+                ) : (
+                  <table className="w-full">
+                    <thead className="text-left text-gray-600">
+                      <tr>
+                        <th className="py-1">{t("common.provider")}</th>
+                        <th className="py-1 text-right">
+                          {t("compare.meanDiff")}
+                        </th>
+                        <th className="py-1 text-right">
+                          {t("compare.maxDiff")}
+                        </th>
+                        <th className="py-1 text-right">
+                          {t("common.todaysPeak")}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {differences.map((difference) => (
+                        <tr key={difference.provider} className="border-t">
+                          <td className="py-1">
+                            {nameOf(difference.provider)}
+                          </td>
+                          <td className="py-1 text-right">
+                            {difference.meanAbsoluteDifference.toFixed(2)}
+                          </td>
+                          <td className="py-1 text-right">
+                            {difference.maxAbsoluteDifference.toFixed(1)}
+                          </td>
+                          <td className="py-1 text-right">
+                            {formatOffset(
+                              difference.peakTimeOffsets[0]?.minutes ?? null
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <div className="bg-white rounded-xl shadow-md p-4 text-sm overflow-x-auto">
+                <h3 className="font-semibold mb-2">
+                  {t("compare.hourByHour")}
+                </h3>
+                <table className="w-full">
+                  <thead className="text-left text-gray-600">
+                    <tr>
+                      <th className="py-1">{t("compare.time")}</th>
+                      {compared.map((id) => (
+                        <th key={id} className="py-1 text-right">
+                          {nameOf(id)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {aligned.times.map((time, i) => (
+                      <tr key={time} className="border-t">
+                        <td className="py-1">{formatSampleTime(time)}</td>
+                        {compared.map((id) => {
+                          const delta = differences.find(
+                            (difference) => difference.provider === id
+                          )?.deltas[i];
+                          return (
+                            <td key={id} className="py-1 text-right">
+                              {aligned.values[id]![i].toFixed(1)}
+                              {delta !== undefined && (
+                                <span
+                                  className={`ml-1 text-xs ${
+                                    Math.abs(delta) >= 1
+                                      ? "text-red-600"
+                                      : "text-gray-400"
+                                  }`}
+                                >
+                                  ({delta >= 0 ? "+" : ""}
+                                  {delta.toFixed(1)})
+                                </span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSeverityPalette } from "../hooks/useSeverityPalette";
+import { useTranslation } from "../hooks/useTranslation";
+import { getUserLocation, reverseLookup } from "../services/locationService";
+import {
+  SavedLocation,
+  addSavedLocation,
+  exportSavedLocations,
+  loadSavedLocations,
+  removeSavedLocation,
+} from "../services/savedLocations";
+import { LocationData, UVData, UVError } from "../services/types";
+import { fetchUVData } from "../services/uvApiClient";
+import { describeUVError, toUVError } from "../services/uvErrors";
+import LocationPicker from "./LocationPicker";
+
+// Lookup state for one saved location
+interface LocationRow {
+  saved: SavedLocation;
+  data: UVData | null;
+  loading: boolean;
+  error: UVError | null;
+}
+
+type SortKey = "name" | "current" | "peak";
+
+export default function SavedLocationsDashboard() {
+  const { locale, t } = useTranslation();
+  const { severityOf } = useSeverityPalette();
+  const [rows, setRows] = useState<LocationRow[]>([]);
+  const [sortKey, setSortKey] = useState<SortKey>("current");
+  const [pending, setPending] = useState<LocationData | null>(null);
+  const [pendingName, setPendingName] = useState("");
+  const [locateError, setLocateError] = useState<UVError | null>(null);
+
+  // Aborts the lookups in flight when a refresh starts or the page unmounts
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  // Fetch every saved location in parallel
+  const refresh = useCallback((locations: SavedLocation[]) => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    setRows(
+      locations.map((saved) => ({
+        saved,
+        data: null,
+        loading: true,
+        error: null,
+      }))
+    );
+
+    locations.forEach(async (saved) => {
+      let update: Partial<LocationRow>;
+      try {
+        const { data, error } = await fetchUVData(saved.location, {
+          signal: controller.signal,
+        });
+        update = { data, loading: false, error: data ? null : error ?? null };
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        update = { loading: false, error: toUVError(err) };
+      }
+
+      setRows((current) =>
+        current.map((row) =>
+          row.saved.id === saved.id ? { ...row, ...update } : row
+        )
+      );
+    });
+  }, []);
+
+  useEffect(() => {
+    refresh(loadSavedLocations());
+  }, [refresh]);
+
+  const choosePending = (location: LocationData) => {
+    setLocateError(null);
+    setPending(location);
+    setPendingName(location.address ?? "");
+  };
+
+  const chooseUserLocation = async () => {
+    try {
+      choosePending(await reverseLookup(await getUserLocation(), locale));
+    } catch (err) {
+      setLocateError(toUVError(err));
+    }
+  };
+
+  const savePending = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pending || !pendingName.trim()) return;
+
+    refresh(addSavedLocation(pendingName.trim(), pending));
+    setPending(null);
+    setPendingName("");
+  };
+
+  const downloadExport = () => {
+    const blob = new Blob([exportSavedLocations()], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "uv-saved-locations.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Rows without data sort last whichever UV column is chosen
+  const sortedRows = [...rows].sort((a, b) => {
+    if (sortKey === "name") return a.saved.name.localeCompare(b.saved.name);
+
+    const value = (row: LocationRow) =>
+      sortKey === "current"
+        ? row.data?.uvIndex ?? -1
+        : row.data?.daily?.[0]?.maxUvIndex ?? row.data?.maxUvIndex ?? -1;
+    return value(b) - value(a);
+  });
+
+  const sortButton = (key: SortKey, label: string) => (
+    <button
+      type="button"
+      className={`font-semibold ${sortKey === key ? "text-indigo-600" : ""}`}
+      onClick={() => setSortKey(key)}
+      aria-pressed={sortKey === key}
+    >
+      {label}
+      {sortKey === key && (key === "name" ? " ▲" : " ▼")}
+    </button>
+  );
+
+  return (
+    <div className="w-full max-w-2xl mx-auto">
+      <LocationPicker
+        onSelect={choosePending}
+        onUseMyLocation={chooseUserLocation}
+      />
+      {locateError && (
+        <p className="mb-4 text-sm text-red-600">
+          {describeUVError(locateError, locale).message}
+        </p>
+      )}
+
+      {pending && (
+        <form
+          className="mb-4 flex gap-2 items-center text-sm"
+          onSubmit={savePending}
+        >
+          <input
+            className="flex-1 border rounded px-3 py-2"
+            placeholder={t("dashboard.namePlaceholder")}
+            aria-label={t("dashboard.name")}
+            value={pendingName}
+            onChange={(e) => setPendingName(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="px-3 py-2 rounded bg-indigo-500 text-white hover:bg-indigo-600"
+          >
+            {t("dashboard.save")}
+          </button>
+        </form>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="text-center text-gray-600">{t("dashboard.empty")}</p>
+      ) : (
+        <div className="bg-white rounded-xl shadow-md overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="p-3">
+                  {sortButton("name", t("common.location"))}
+                </th>
+                <th className="p-3">
+                  {sortButton("current", t("dashboard.now"))}
+                </th>
+                <th className="p-3">
+                  {sortButton("peak", t("common.todaysPeak"))}
+                </th>
+                <th className="p-3">{t("dashboard.severity")}</th>
+                <th className="p-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map(({ saved, data, loading, error }) => {
+                const peak = data?.daily?.[0]?.maxUvIndex ?? data?.maxUvIndex;
+                const severity = data ? severityOf(data.uvIndex) : null;
+
+                return (
+                  <tr key={saved.id} className="border-t">
+                    <td className="p-3">
+                      <p className="font-semibold">{saved.name}</p>
+                      {saved.location.address && (
+                        <p className="text-xs text-gray-500">
+                          {saved.location.address}
+                        </p>
+                      )}
+                    </td>
+                    {loading ? (
+                      <td className="p-3 text-gray-500" colSpan={3}>
+                        {t("common.loading")}
+                      </td>
+                    ) : error || !data ? (
+                      <td className="p-3 text-red-600" colSpan={3}>
+                        {error
+                          ? describeUVError(error, locale).title
+                          : t("common.noData")}
+                      </td>
+                    ) : (
+                      <>
+                        <td className="p-3 font-bold">
+                          {data.uvIndex.toFixed(1)}
+                        </td>
+                        <td className="p-3">
+                          {peak !== undefined ? peak.toFixed(1) : "–"}
+                        </td>
+                        <td className="p-3">
+                          <span
+                            className="rounded px-2 py-0.5"
+                            style={{
+                              backgroundColor: severity!.colors.fill,
+                              color: severity!.colors.text,
+                            }}
+                          >
+                            {severity!.label}
+                          </span>
+                        </td>
+                      </>
+                    )}
+                    <td className="p-3 text-right">
+                      <button
+                        type="button"
+                        className="text-xs text-gray-500 hover:text-red-600"
+                        onClick={() => refresh(removeSavedLocation(saved.id))}
+                        aria-label={t("common.removeNamed", {
+                          name: saved.name,
+                        })}
+                      >
+                        {t("common.remove")}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="mt-4 flex justify-end gap-4 text-sm">
+          <button
+            type="button"
+            className="text-indigo-600 hover:underline"
+            onClick={() => refresh(loadSavedLocations())}
+          >
+            {t("dashboard.refresh")}
+          </button>
+          <button
+            type="button"
+            className="text-indigo-600 hover:underline"
+            onClick={downloadExport}
+          >
+            {t("dashboard.export")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+"use client";
+
+import { useEffect } from "react";
+import { registerServiceWorker } from "../services/notifications";
+
+// Installs the service worker on every page so the app works offline
+export default function ServiceWorkerRegistrar() {
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  return null;
+}
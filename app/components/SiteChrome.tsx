@@ -0,0 +1,25 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import AlertMonitor from "./AlertMonitor";
+import LanguageSwitcher from "./LanguageSwitcher";
+import PaletteSwitcher from "./PaletteSwitcher";
+import ServiceWorkerRegistrar from "./ServiceWorkerRegistrar";
+
+// Settings, alerts and offline support shared by the app's own pages. The
+// embeddable widget runs inside other sites, so it gets none of them
+export default function SiteChrome() {
+  const pathname = usePathname();
+  if (pathname.startsWith("/embed")) return null;
+
+  return (
+    <>
+      <div className="fixed top-2 right-2 z-20 flex gap-2 text-xs text-gray-600">
+        <LanguageSwitcher />
+        <PaletteSwitcher />
+      </div>
+      <AlertMonitor />
+      <ServiceWorkerRegistrar />
+    </>
+  );
+}
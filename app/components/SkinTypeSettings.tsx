@@ -0,0 +1,63 @@
+"use client";
+
+import { useTranslation } from "../hooks/useTranslation";
+import { MessageKey } from "../services/i18n";
+import { SkinSettings } from "../services/skinSettings";
+import { FitzpatrickSkinType, SKIN_TYPES } from "../services/skinType";
+
+// Sunscreen options offered in the SPF picker, 1 meaning none
+const SPF_OPTIONS = [1, 15, 30, 50];
+
+interface SkinTypeSettingsProps {
+  settings: SkinSettings;
+  onChange: (settings: SkinSettings) => void;
+}
+
+export default function SkinTypeSettings({
+  settings,
+  onChange,
+}: SkinTypeSettingsProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="grid grid-cols-2 gap-4 text-sm">
+      <label className="flex flex-col gap-1">
+        <span className="text-gray-600">{t("skin.type")}</span>
+        <select
+          className="border rounded px-2 py-1"
+          value={settings.skinType ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...settings,
+              skinType: (e.target.value || null) as FitzpatrickSkinType | null,
+            })
+          }
+        >
+          <option value="">{t("skin.notSet")}</option>
+          {SKIN_TYPES.map((info) => (
+            <option key={info.type} value={info.type}>
+              {info.type} – {t(`skinType.${info.type}` as MessageKey)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-gray-600">{t("skin.sunscreen")}</span>
+        <select
+          className="border rounded px-2 py-1"
+          value={settings.spf}
+          onChange={(e) =>
+            onChange({ ...settings, spf: Number(e.target.value) })
+          }
+        >
+          {SPF_OPTIONS.map((spf) => (
+            <option key={spf} value={spf}>
+              {spf === 1 ? t("skin.none") : `SPF ${spf}`}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
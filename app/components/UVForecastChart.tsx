@@ -0,0 +1,432 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { useSeverityPalette } from "../hooks/useSeverityPalette";
+import { useTranslation } from "../hooks/useTranslation";
+import { getLocaleTag } from "../services/i18n";
+import { HourlyUVData } from "../services/types";
+import { interpolateUVIndex } from "../services/uvForecast";
+import { SEVERITY_PALETTES, UV_SEVERITY_SCALE } from "../services/uvSeverity";
+
+// One line on the chart
+export interface ChartSeries {
+  id: string;
+  label: string;
+  color?: string;
+  // Draw the line dashed, e.g. for reference values behind the main series
+  dashed?: boolean;
+  // Samples in chronological order
+  data: HourlyUVData[];
+}
+
+interface UVForecastChartProps {
+  // The first series drives navigation and the tooltip's severity; further
+  // series are drawn as overlay lines, e.g. other providers
+  series: ChartSeries[];
+  // Accessible name of the chart
+  label: string;
+  // Current time in milliseconds, marked on the chart when in range
+  now?: number;
+  // Time zone for the axis and tooltip; the browser's by default
+  timeZone?: string;
+  // Index into the first series of the selected sample
+  selectedIndex?: number | null;
+  onSelect?: (index: number) => void;
+}
+
+// Chart size and margins in SVG units
+const WIDTH = 600;
+const HEIGHT = 200;
+const MARGIN = { top: 8, right: 8, bottom: 22, left: 34 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+const DEFAULT_COLOR = "#4f46e5";
+
+// Lowest top of the Y axis, so the Extreme band is always in view
+const MIN_Y_MAX = 12;
+
+// Opacity of the severity band backgrounds, so the lines stay readable
+const BAND_OPACITY = 0.2;
+
+// Spacing of the X axis ticks in hours, the smallest giving at most 8 ticks;
+// steps of a week or more are labelled with the date instead of the weekday
+const TICK_STEPS = [1, 2, 3, 6, 12, 24, 48, 168, 336, 720, 1464];
+const MAX_TICKS = 8;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export default function UVForecastChart({
+  series,
+  label,
+  now,
+  timeZone,
+  selectedIndex = null,
+  onSelect,
+}: UVForecastChartProps) {
+  const { locale, t } = useTranslation();
+  const { palette, severityOf } = useSeverityPalette();
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [focusIndex, setFocusIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const primary = series[0]?.data ?? [];
+  const times = primary.map((sample) => new Date(sample.time).getTime());
+  const start = times[0] ?? 0;
+  const end = times[times.length - 1] ?? 0;
+  const span = Math.max(end - start, 1);
+
+  const yMax = Math.max(
+    MIN_Y_MAX,
+    Math.ceil(
+      Math.max(0, ...series.flatMap(({ data }) => data.map((s) => s.uvIndex)))
+    )
+  );
+
+  const x = (time: number) =>
+    primary.length > 1
+      ? MARGIN.left + ((time - start) / span) * PLOT_WIDTH
+      : MARGIN.left + PLOT_WIDTH / 2;
+  const y = (value: number) =>
+    MARGIN.top + PLOT_HEIGHT - (value / yMax) * PLOT_HEIGHT;
+
+  const formatters = useMemo(() => {
+    const tag = getLocaleTag(locale);
+    const options = { timeZone, hourCycle: "h23" as const };
+    return {
+      hour: new Intl.DateTimeFormat(tag, {
+        ...options,
+        hour: "2-digit",
+        minute: "2-digit",
+      }),
+      day: new Intl.DateTimeFormat(tag, {
+        timeZone,
+        weekday: "short",
+        day: "numeric",
+      }),
+      date: new Intl.DateTimeFormat(tag, {
+        timeZone,
+        month: "short",
+        day: "numeric",
+      }),
+      full: new Intl.DateTimeFormat(tag, {
+        ...options,
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+      }),
+      localHour: new Intl.DateTimeFormat("en-GB", {
+        ...options,
+        hour: "2-digit",
+      }),
+    };
+  }, [locale, timeZone]);
+
+  // X axis ticks on whole local hours, labelled with the day at midnight
+  const ticks = useMemo(() => {
+    if (primary.length < 2) return [];
+
+    const hours = span / HOUR_MS;
+    const step =
+      TICK_STEPS.find((candidate) => hours / candidate <= MAX_TICKS) ??
+      TICK_STEPS[TICK_STEPS.length - 1];
+    const result: { time: number; label: string }[] = [];
+
+    for (
+      let time = Math.ceil(start / HOUR_MS) * HOUR_MS;
+      time <= end;
+      time += HOUR_MS
+    ) {
+      const hour = Number(formatters.localHour.format(time));
+      const isMidnight = hour === 0;
+      const onStep =
+        step < 24
+          ? hour % step === 0
+          : isMidnight &&
+            Math.round((time - start) / DAY_MS) % (step / 24) === 0;
+      if (!onStep) continue;
+
+      result.push({
+        time,
+        label:
+          step >= 168
+            ? formatters.date.format(time)
+            : isMidnight || step >= 24
+            ? formatters.day.format(time)
+            : formatters.hour.format(time),
+      });
+    }
+
+    return result;
+  }, [primary.length, span, start, end, formatters]);
+
+  // Band edges, from Low at 0 up to the top of the axis
+  const bands = UV_SEVERITY_SCALE.map(({ level, min, max }) => ({
+    level,
+    from: min,
+    to: Math.min(yMax, max ?? yMax),
+  }));
+
+  const activeIndex = hoverIndex ?? focusIndex ?? selectedIndex;
+  const active = activeIndex !== null ? primary[activeIndex] : undefined;
+
+  // Describe a sample for the tooltip and screen readers
+  const describe = (index: number) => {
+    const sample = primary[index];
+    const time = new Date(sample.time).getTime();
+    const values = series.map(({ label: name, data }, i) => {
+      const value = i === 0 ? sample.uvIndex : interpolateUVIndex(data, time);
+      return `${name} ${value === null ? "–" : value.toFixed(1)}`;
+    });
+    return `${formatters.full.format(time)}: ${values.join(", ")} (${
+      severityOf(sample.uvIndex).label
+    })`;
+  };
+
+  // Find the sample nearest a pointer position
+  const indexAt = (clientX: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || primary.length === 0) return null;
+
+    const svgX = ((clientX - rect.left) / rect.width) * WIDTH;
+    const time = start + ((svgX - MARGIN.left) / PLOT_WIDTH) * span;
+    let nearest = 0;
+    for (let i = 1; i < times.length; i++) {
+      if (Math.abs(times[i] - time) < Math.abs(times[nearest] - time)) {
+        nearest = i;
+      }
+    }
+    return nearest;
+  };
+
+  const moveTo = (index: number) => {
+    const clamped = Math.max(0, Math.min(primary.length - 1, index));
+    setFocusIndex(clamped);
+    setAnnouncement(describe(clamped));
+    onSelect?.(clamped);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const current = focusIndex ?? selectedIndex ?? -1;
+    // Jump a day at a time with Page Up/Down on multi-day data
+    const perDay = Math.max(
+      1,
+      Math.round((DAY_MS * Math.max(1, primary.length - 1)) / span)
+    );
+    const moves: Record<string, number> = {
+      ArrowRight: current + 1,
+      ArrowLeft: current < 0 ? primary.length - 1 : current - 1,
+      PageDown: current + perDay,
+      PageUp: current - perDay,
+      Home: 0,
+      End: primary.length - 1,
+    };
+    if (e.key in moves) {
+      e.preventDefault();
+      moveTo(moves[e.key]);
+    }
+  };
+
+  if (primary.length === 0) return null;
+
+  const point = (time: number, value: number) =>
+    `${x(time).toFixed(1)},${y(value).toFixed(1)}`;
+  const linePath = (data: HourlyUVData[]) =>
+    data
+      .map(
+        (sample, i) =>
+          `${i === 0 ? "M" : "L"}${point(
+            new Date(sample.time).getTime(),
+            sample.uvIndex
+          )}`
+      )
+      .join("");
+  const areaPath = `${linePath(primary)}L${point(end, 0)}L${point(start, 0)}Z`;
+  const showNow = now !== undefined && now >= start && now <= end;
+  // Only show the tooltip while pointing at or navigating the chart
+  const showTooltip =
+    activeIndex !== null &&
+    active !== undefined &&
+    (hoverIndex !== null || focusIndex !== null);
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto touch-none select-none focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 rounded"
+        role="application"
+        aria-roledescription="chart"
+        aria-label={`${label}. ${t("chart.instructions")}`}
+        tabIndex={0}
+        onKeyDown={onKeyDown}
+        onFocus={() => focusIndex === null && setFocusIndex(selectedIndex)}
+        onBlur={() => setFocusIndex(null)}
+        onPointerMove={(e) => setHoverIndex(indexAt(e.clientX))}
+        onPointerLeave={() => setHoverIndex(null)}
+        onPointerDown={(e) => {
+          const index = indexAt(e.clientX);
+          if (index !== null) {
+            setHoverIndex(index);
+            onSelect?.(index);
+          }
+        }}
+      >
+        {/* Severity bands */}
+        {bands.map((band) => (
+          <rect
+            key={band.level}
+            x={MARGIN.left}
+            width={PLOT_WIDTH}
+            y={y(band.to)}
+            height={Math.max(0, y(band.from) - y(band.to))}
+            fill={SEVERITY_PALETTES[palette].colors[band.level].fill}
+            fillOpacity={BAND_OPACITY}
+          />
+        ))}
+
+        {/* Y axis */}
+        {bands.map((band) => (
+          <g key={band.level}>
+            <line
+              x1={MARGIN.left - 4}
+              x2={MARGIN.left}
+              y1={y(band.from)}
+              y2={y(band.from)}
+              stroke="#9ca3af"
+            />
+            <text
+              x={MARGIN.left - 6}
+              y={y(band.from)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fontSize={10}
+              fill="#4b5563"
+            >
+              {band.from}
+            </text>
+          </g>
+        ))}
+        <text
+          x={0}
+          y={0}
+          transform={`translate(8 ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(-90)`}
+          textAnchor="middle"
+          fontSize={10}
+          fill="#4b5563"
+        >
+          {t("chart.uvIndex")}
+        </text>
+
+        {/* X axis */}
+        <line
+          x1={MARGIN.left}
+          x2={WIDTH - MARGIN.right}
+          y1={y(0)}
+          y2={y(0)}
+          stroke="#9ca3af"
+        />
+        {ticks.map((tick) => (
+          <g key={tick.time}>
+            <line
+              x1={x(tick.time)}
+              x2={x(tick.time)}
+              y1={y(0)}
+              y2={y(0) + 4}
+              stroke="#9ca3af"
+            />
+            <text
+              x={x(tick.time)}
+              y={HEIGHT - 6}
+              textAnchor="middle"
+              fontSize={10}
+              fill="#4b5563"
+            >
+              {tick.label}
+            </text>
+          </g>
+        ))}
+
+        {/* Forecast */}
+        <path
+          d={areaPath}
+          fill={series[0].color ?? DEFAULT_COLOR}
+          fillOpacity={0.15}
+        />
+        {series.map((line, i) => (
+          <path
+            key={line.id}
+            d={linePath(line.data)}
+            fill="none"
+            stroke={line.color ?? DEFAULT_COLOR}
+            strokeWidth={i === 0 ? 2 : 1.5}
+            strokeDasharray={line.dashed ? "6 4" : undefined}
+          />
+        ))}
+
+        {/* Now marker */}
+        {showNow && (
+          <g>
+            <line
+              x1={x(now)}
+              x2={x(now)}
+              y1={MARGIN.top}
+              y2={y(0)}
+              stroke="#111827"
+              strokeDasharray="4 3"
+            />
+            <text
+              x={x(now) + 3}
+              y={MARGIN.top + 9}
+              fontSize={10}
+              fill="#111827"
+            >
+              {t("chart.now")}
+            </text>
+          </g>
+        )}
+
+        {/* Active sample */}
+        {active && (
+          <g>
+            <line
+              x1={x(new Date(active.time).getTime())}
+              x2={x(new Date(active.time).getTime())}
+              y1={MARGIN.top}
+              y2={y(0)}
+              stroke="#6b7280"
+            />
+            <circle
+              cx={x(new Date(active.time).getTime())}
+              cy={y(active.uvIndex)}
+              r={4}
+              fill={series[0].color ?? DEFAULT_COLOR}
+              stroke="white"
+              strokeWidth={2}
+            />
+          </g>
+        )}
+      </svg>
+
+      {/* Tooltip */}
+      {showTooltip && (
+        <div
+          className="absolute top-0 pointer-events-none -translate-x-1/2 bg-gray-900 text-white text-xs rounded px-2 py-1 whitespace-nowrap"
+          style={{
+            left: `${(x(new Date(active.time).getTime()) / WIDTH) * 100}%`,
+          }}
+          aria-hidden="true"
+        >
+          {describe(activeIndex!)}
+        </div>
+      )}
+
+      {/* Screen reader announcements for keyboard navigation */}
+      <div className="sr-only" aria-live="polite">
+        {announcement}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslation } from "../hooks/useTranslation";
+import {
+  DailyHistory,
+  HistoryReport,
+  PeriodPeak,
+} from "../services/historyStats";
+import { formatDate } from "../services/i18n";
+import UVForecastChart from "./UVForecastChart";
+
+// History ranges offered, in days
+const RANGE_OPTIONS = [30, 90, 365];
+
+export default function UVHistoryView() {
+  const { locale, t } = useTranslation();
+  const [report, setReport] = useState<HistoryReport | null>(null);
+  const [location, setLocation] = useState<string | null>(null);
+  const [provider, setProvider] = useState<string | null>(null);
+  const [days, setDays] = useState(90);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    // Days are counted in the location's time zone
+    const params = new URLSearchParams({ days: String(days) });
+    if (location) params.set("location", location);
+    if (provider) params.set("provider", provider);
+
+    setLoading(true);
+    fetch(`/api/history?${params}`, { signal: controller.signal })
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error);
+        setReport(body);
+        setError(null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err : new Error());
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [location, provider, days]);
+
+  if (loading && !report) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-6 max-w-md mx-auto">
+        <h2 className="text-xl font-bold text-red-700">{t("error.title")}</h2>
+        <p className="text-red-600 mt-2">
+          {error.message || t("history.loadFailed")}
+        </p>
+      </div>
+    );
+  }
+
+  if (!report || report.locations.length === 0) {
+    return (
+      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 max-w-md mx-auto">
+        <h2 className="text-xl font-bold text-yellow-700">
+          {t("history.empty.title")}
+        </h2>
+        <p className="text-yellow-600 mt-2">{t("history.empty.message")}</p>
+      </div>
+    );
+  }
+
+  const highestDay = report.daily.reduce<DailyHistory | null>(
+    (best, day) => (!best || day.maxUvIndex > best.maxUvIndex ? day : best),
+    null
+  );
+
+  const peakTable = (title: string, peaks: PeriodPeak[]) => (
+    <div className="bg-white rounded-xl shadow-md p-4">
+      <h3 className="font-semibold mb-2">{title}</h3>
+      {peaks.length === 0 ? (
+        <p className="text-sm text-gray-500">{t("common.noReadings")}</p>
+      ) : (
+        <table className="w-full text-sm">
+          <tbody>
+            {[...peaks].reverse().map((peak) => (
+              <tr key={peak.period} className="border-t">
+                <td className="py-1">{peak.period}</td>
+                <td className="py-1 text-gray-500">
+                  {formatDate(peak.date, locale)}
+                </td>
+                <td className="py-1 text-right font-bold">
+                  {peak.maxUvIndex.toFixed(1)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="w-full max-w-3xl mx-auto grid gap-6">
+      <div className="flex flex-wrap gap-4 justify-center text-sm">
+        <label className="flex items-center gap-2">
+          {t("common.location")}
+          <select
+            className="border rounded px-2 py-1"
+            value={report.location ?? ""}
+            onChange={(e) => {
+              setLocation(e.target.value);
+              setProvider(null);
+            }}
+          >
+            {report.locations.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        {report.providers.length > 1 && (
+          <label className="flex items-center gap-2">
+            {t("common.provider")}
+            <select
+              className="border rounded px-2 py-1"
+              value={report.provider ?? ""}
+              onChange={(e) => setProvider(e.target.value)}
+            >
+              {report.providers.map((id) => (
+                <option key={id} value={id}>
+                  {id}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-2">
+          {t("history.range")}
+          <select
+            className="border rounded px-2 py-1"
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+          >
+            {RANGE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t("history.lastDays", { days: option })}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div className="bg-white rounded-xl shadow-md p-4">
+          <p className="text-3xl font-bold">{report.daily.length}</p>
+          <p className="text-sm text-gray-600">{t("history.daysRecorded")}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-md p-4">
+          <p className="text-3xl font-bold">{report.veryHighDays}</p>
+          <p className="text-sm text-gray-600">
+            {t("history.levelDays", { level: t("severity.Very High") })}
+          </p>
+        </div>
+        <div className="bg-white rounded-xl shadow-md p-4">
+          <p className="text-3xl font-bold">
+            {highestDay ? highestDay.maxUvIndex.toFixed(1) : "–"}
+          </p>
+          <p className="text-sm text-gray-600">
+            {highestDay
+              ? t("history.highestOn", {
+                  date: formatDate(highestDay.date, locale),
+                })
+              : t("history.highest")}
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-4">
+        <h3 className="font-semibold mb-2">{t("history.dailyPeaks")}</h3>
+        {report.daily.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("common.noReadings")}</p>
+        ) : (
+          <UVForecastChart
+            series={[
+              {
+                id: "daily",
+                label: t("history.peakUv"),
+                data: report.daily.map((day) => ({
+                  time: day.maxUvTime,
+                  uvIndex: day.maxUvIndex,
+                })),
+              },
+            ]}
+            label={t("history.dailyPeaksLabel")}
+          />
+        )}
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        {peakTable(t("history.weeklyPeaks"), report.weekly)}
+        {peakTable(t("history.monthlyPeaks"), report.monthly)}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-4">
+        <h3 className="font-semibold mb-1">{t("history.accuracy")}</h3>
+        <p className="text-xs text-gray-500 mb-2">
+          {t("history.accuracyHint")}
+        </p>
+        {report.accuracy.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("history.notEnough")}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-600">
+              <tr>
+                <th className="py-1">{t("common.provider")}</th>
+                <th className="py-1">{t("history.leadTime")}</th>
+                <th className="py-1 text-right">{t("history.meanError")}</th>
+                <th className="py-1 text-right">{t("history.bias")}</th>
+                <th className="py-1 text-right">{t("history.pairs")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.accuracy.map((row) => (
+                <tr
+                  key={`${row.provider}:${row.leadHours}`}
+                  className="border-t"
+                >
+                  <td className="py-1">{row.provider}</td>
+                  <td className="py-1">
+                    {t("duration.wholeHours", { hours: row.leadHours })}
+                  </td>
+                  <td className="py-1 text-right">
+                    {row.meanAbsoluteError.toFixed(2)}
+                  </td>
+                  <td className="py-1 text-right">
+                    {row.bias > 0 ? "+" : ""}
+                    {row.bias.toFixed(2)}
+                  </td>
+                  <td className="py-1 text-right">{row.count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useTranslation } from "../hooks/useTranslation";
+import type { WidgetOptions } from "../services/uvWidget";
+import LocaleProvider from "./LocaleProvider";
+import MeteomaticsUVDisplay from "./MeteomaticsUVDisplay";
+import PaletteProvider from "./PaletteProvider";
+
+// Embeddable UV display for a fixed location, in the theme, layout, language
+// and palette requested by the embedding page
+export default function UVWidget({ options }: { options: WidgetOptions }) {
+  const { location, theme, layout, locale, palette } = options;
+  const themeClass =
+    theme === "dark" ? "dark bg-gray-900 text-gray-100" : "bg-white text-gray-900";
+
+  return (
+    <LocaleProvider locale={locale}>
+      <PaletteProvider palette={palette}>
+        <div
+          className={`${themeClass} min-h-screen p-2 font-[family-name:var(--font-geist-sans)]`}
+          lang={locale}
+        >
+          <MeteomaticsUVDisplay fixedLocation={location} layout={layout} />
+          <OpenAppLink />
+        </div>
+      </PaletteProvider>
+    </LocaleProvider>
+  );
+}
+
+// Link from the widget to the full app, outside the embedding page's frame
+function OpenAppLink() {
+  const { t } = useTranslation();
+
+  return (
+    <p className="mt-2 text-center text-xs">
+      <a
+        href="/"
+        target="_blank"
+        rel="noopener"
+        className="text-indigo-600 hover:underline dark:text-indigo-400"
+      >
+        {t("embed.openApp")}
+      </a>
+    </p>
+  );
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from "next";
+import UVWidget from "../components/UVWidget";
+import { parseWidgetOptions } from "../services/uvWidget";
+
+export const metadata: Metadata = {
+  title: "UV Index",
+  robots: { index: false },
+};
+
+// Embeddable widget for other sites' iframes, configured by the query string
+// (see WIDGET_PARAMS), e.g. /embed?lat=59.33&lng=18.07&theme=dark
+export default async function EmbedPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries(await searchParams)) {
+    if (typeof value === "string") query.set(name, value);
+  }
+
+  const parsed = parseWidgetOptions(query);
+  if ("error" in parsed) {
+    return (
+      <p className="p-4 text-sm text-red-600" role="alert">
+        {parsed.error}
+      </p>
+    );
+  }
+
+  return <UVWidget options={parsed.options} />;
+}
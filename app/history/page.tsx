@@ -0,0 +1,17 @@
+import PageHeader from "../components/PageHeader";
+import UVHistoryView from "../components/UVHistoryView";
+
+export default function HistoryPage() {
+  return (
+    <div className="grid grid-rows-[auto_1fr_auto] items-start justify-items-center min-h-screen p-8 pb-20 gap-8 sm:p-12 font-[family-name:var(--font-geist-sans)]">
+      <PageHeader
+        title="page.history.title"
+        description="page.history.description"
+      />
+
+      <main className="row-start-2 w-full">
+        <UVHistoryView />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { createRefreshScheduler } from "../services/refreshScheduler";
+
+/**
+ * Call onRefresh on each interval boundary while the page is visible
+ * @param onRefresh Callback that re-fetches data; the latest one is always used
+ * @param intervalMs Spacing of the provider's data in milliseconds
+ * @param enabled Whether refreshing is active, e.g. once there is data to refresh
+ */
+export function useAutoRefresh(
+  onRefresh: () => void,
+  intervalMs: number,
+  enabled: boolean
+): void {
+  // Keep the latest callback without restarting the scheduler on every render
+  const callbackRef = useRef(onRefresh);
+  callbackRef.current = onRefresh;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const scheduler = createRefreshScheduler({
+      intervalMs,
+      onRefresh: () => callbackRef.current(),
+    });
+    scheduler.start();
+
+    return () => scheduler.stop();
+  }, [intervalMs, enabled]);
+}
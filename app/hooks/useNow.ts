@@ -0,0 +1,20 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * Get the current time, updated on an interval so relative times and
+ * interpolated values stay current between renders
+ * @param tickMs How often to update, in milliseconds
+ * @returns The current time in milliseconds
+ */
+export function useNow(tickMs: number = 60 * 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), tickMs);
+    return () => clearInterval(timer);
+  }, [tickMs]);
+
+  return now;
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import {
+  DEFAULT_PALETTE,
+  SeverityPaletteId,
+  getUVSeverity,
+} from "../services/uvSeverity";
+import { useTranslation } from "./useTranslation";
+
+// Palette chosen by the user, provided by PaletteProvider
+export interface PaletteContextValue {
+  palette: SeverityPaletteId;
+  setPalette: (palette: SeverityPaletteId) => void;
+}
+
+export const PaletteContext = createContext<PaletteContextValue>({
+  palette: DEFAULT_PALETTE,
+  setPalette: () => {},
+});
+
+/**
+ * Get the chosen palette and a severity lookup using it and the current
+ * language
+ * @returns The palette, a setter for it, and getUVSeverity bound to both
+ */
+export function useSeverityPalette() {
+  const { palette, setPalette } = useContext(PaletteContext);
+  const { locale } = useTranslation();
+  const severityOf = (uvIndex: number) =>
+    getUVSeverity(uvIndex, locale, palette);
+
+  return { palette, setPalette, severityOf };
+}
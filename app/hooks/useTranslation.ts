@@ -0,0 +1,32 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  MessageKey,
+  translate,
+} from "../services/i18n";
+
+// Language chosen by the user, provided by LocaleProvider
+export interface LocaleContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+}
+
+export const LocaleContext = createContext<LocaleContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+});
+
+/**
+ * Get the current language and a function translating messages into it
+ * @returns The locale, a setter for it, and the translate function
+ */
+export function useTranslation() {
+  const { locale, setLocale } = useContext(LocaleContext);
+  const t = (key: MessageKey, params?: Record<string, string | number>) =>
+    translate(locale, key, params);
+
+  return { locale, setLocale, t };
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useCallback, useEffect } from "react";
+import { evaluateAlertRules } from "../services/alertRules";
+import {
+  loadAlertRules,
+  loadSentAlerts,
+  saveSentAlerts,
+} from "../services/alertStorage";
+import { loadLocale } from "../services/i18n";
+import { showAlertNotification } from "../services/notifications";
+import { UVData } from "../services/types";
+import { fetchUVData } from "../services/uvApiClient";
+import { useAutoRefresh } from "./useAutoRefresh";
+
+// How often the rules are checked while the app is open
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Check the saved alert rules against fresh forecasts on a schedule and
+ * show a notification for each alert that is due
+ * Rules are re-read from storage on every check, so edits apply straight away
+ */
+export function useUVAlerts(): void {
+  const check = useCallback(async () => {
+    const rules = loadAlertRules().filter((rule) => rule.enabled);
+    if (rules.length === 0) return;
+
+    const forecasts: Record<string, UVData | undefined> = {};
+    await Promise.all(
+      rules.map(async (rule) => {
+        try {
+          // Two days so a lead time past midnight still sees the crossing
+          const result = await fetchUVData(rule.location, { days: 2 });
+          forecasts[rule.id] = result.data ?? undefined;
+        } catch (error) {
+          console.error(`Alert check failed for ${rule.name}:`, error);
+        }
+      })
+    );
+
+    const { notifications, sent } = evaluateAlertRules(
+      rules,
+      forecasts,
+      Date.now(),
+      loadSentAlerts(),
+      Intl.DateTimeFormat().resolvedOptions().timeZone,
+      // Read from storage rather than context, since the first check runs
+      // before the saved language is loaded
+      loadLocale()
+    );
+    // Record before showing, so a failed notification is not retried forever
+    saveSentAlerts(sent);
+    await Promise.all(notifications.map(showAlertNotification));
+  }, []);
+
+  useEffect(() => {
+    check();
+  }, [check]);
+
+  useAutoRefresh(check, CHECK_INTERVAL_MS, true);
+}
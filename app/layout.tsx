@@ -1,5 +1,8 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import LocaleProvider from "./components/LocaleProvider";
+import PaletteProvider from "./components/PaletteProvider";
+import SiteChrome from "./components/SiteChrome";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -13,8 +16,15 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: "UV Index Tracker",
+  description: "Current UV index and forecast for your location",
+  applicationName: "UV Index Tracker",
+  icons: { apple: "/icon.svg" },
+  appleWebApp: { capable: true, title: "UV Index" },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#4f46e5",
 };
 
 export default function RootLayout({
@@ -27,7 +37,12 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <LocaleProvider>
+          <PaletteProvider>
+            <SiteChrome />
+            {children}
+          </PaletteProvider>
+        </LocaleProvider>
       </body>
     </html>
   );
@@ -1,33 +1,43 @@
 "use client";
 
+import Link from "next/link";
+import { useTranslation } from "./hooks/useTranslation";
 import MeteomaticsUVDisplay from "./components/MeteomaticsUVDisplay";
-import UVIndexServiceTest from "./components/UVIndexServiceTest";
 
 export default function Home() {
+  const { t } = useTranslation();
+
   return (
     <div className="grid grid-rows-[auto_1fr_auto] items-center justify-items-center min-h-screen p-8 pb-20 gap-8 sm:p-12 font-[family-name:var(--font-geist-sans)]">
       <header className="w-full max-w-md mx-auto text-center">
-        <h1 className="text-3xl font-bold mb-2">UV Index Tracker</h1>
-        <p className="text-gray-600 mb-6">
-          Get real-time UV index data for your location
-        </p>
+        <h1 className="text-3xl font-bold mb-2">{t("app.title")}</h1>
+        <p className="text-gray-600 mb-2">{t("app.tagline")}</p>
+        <div className="mb-6 flex flex-wrap justify-center gap-4 text-sm">
+          <Link href="/dashboard" className="text-indigo-600 hover:underline">
+            {t("nav.dashboard")}
+          </Link>
+          <Link href="/alerts" className="text-indigo-600 hover:underline">
+            {t("nav.alerts")}
+          </Link>
+          <Link href="/history" className="text-indigo-600 hover:underline">
+            {t("nav.history")}
+          </Link>
+          <Link href="/compare" className="text-indigo-600 hover:underline">
+            {t("nav.compare")}
+          </Link>
+          <Link href="/planner" className="text-indigo-600 hover:underline">
+            {t("nav.planner")}
+          </Link>
+        </div>
       </header>
 
-      <main className="row-start-2 w-full grid gap-8">
-        <div className="mb-8">
-          <h2 className="text-center text-lg font-semibold mb-4">Old Implementation (Meteomatics)</h2>
-          <MeteomaticsUVDisplay />
-        </div>
-        
-        <div>
-          <h2 className="text-center text-lg font-semibold mb-4">New Implementation (Free API)</h2>
-          <UVIndexServiceTest />
-        </div>
+      <main className="row-start-2 w-full">
+        <MeteomaticsUVDisplay />
       </main>
 
       <footer className="row-start-3 text-center text-sm text-gray-500 mt-8">
         <p>
-          © {new Date().getFullYear()} UV Index Tracker
+          © {new Date().getFullYear()} {t("app.title")}
         </p>
       </footer>
     </div>
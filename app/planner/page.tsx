@@ -0,0 +1,17 @@
+import ActivityPlanner from "../components/ActivityPlanner";
+import PageHeader from "../components/PageHeader";
+
+export default function PlannerPage() {
+  return (
+    <div className="grid grid-rows-[auto_1fr_auto] items-start justify-items-center min-h-screen p-8 pb-20 gap-8 sm:p-12 font-[family-name:var(--font-geist-sans)]">
+      <PageHeader
+        title="page.planner.title"
+        description="page.planner.description"
+      />
+
+      <main className="row-start-2 w-full">
+        <ActivityPlanner />
+      </main>
+    </div>
+  );
+}
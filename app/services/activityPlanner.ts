@@ -0,0 +1,212 @@
+// Activity Planner
+// Ranks the times an outdoor activity could take place by the UV dose it
+// would bring, to find the most sun-safe window on each day
+
+import { getLocalMinutes } from "./alertRules";
+import {
+  FitzpatrickSkinType,
+  JOULES_PER_M2_PER_UVI_MINUTE,
+  getSkinTypeInfo,
+} from "./skinType";
+import { HourlyUVData } from "./types";
+import {
+  UVExposure,
+  createUVExposure,
+  getLocalDate,
+  getPeakUVIndex,
+  getUVExposure,
+} from "./uvForecast";
+
+// One standard erythema dose (SED) is 100 J/m² of erythemally weighted UV
+export const SED_JOULES_PER_M2 = 100;
+
+// Activity durations offered by the planner, in minutes
+export const ACTIVITY_DURATIONS = [30, 60, 90, 120, 180, 240];
+
+// Default spacing of the start times considered, in minutes
+export const PLANNER_STEP_MINUTES = 15;
+
+export interface PlannerOptions {
+  durationMinutes: number;
+  // Earliest start, in milliseconds since the epoch; usually now
+  from: number;
+  // IANA time zone the days and hours are counted in
+  timeZone: string;
+  // Highest UV index acceptable at any point of the activity
+  maxUvIndex?: number;
+  // Skin type and sunscreen; slots that would burn the skin are left out
+  skinType?: FitzpatrickSkinType | null;
+  spf?: number;
+  // Number of calendar days to plan, starting with the day of from
+  days?: number;
+  // Local hours the activity may take place between
+  earliestHour?: number;
+  latestHour?: number;
+  // Spacing of the start times considered, in minutes
+  stepMinutes?: number;
+  // Slots suggested per day
+  limit?: number;
+}
+
+// A suggested time for the activity
+export interface ActivitySlot {
+  start: string;
+  end: string;
+  // Erythemally weighted UV received over the slot, in SED
+  doseSed: number;
+  peakUvIndex: number;
+}
+
+// Suggested slots of one local calendar day, best first
+export interface DayPlan {
+  date: string;
+  slots: ActivitySlot[];
+}
+
+const DEFAULT_PLANNER_OPTIONS = {
+  days: 2,
+  earliestHour: 6,
+  latestHour: 22,
+  stepMinutes: PLANNER_STEP_MINUTES,
+  limit: 3,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Work out the UV dose of spending a period outdoors
+ * @param exposure Forecast prepared with createUVExposure
+ * @param start Start of the period, in milliseconds since the epoch
+ * @param durationMinutes Length of the period
+ * @returns The dose in SED and the highest UV index over the period, or null
+ * if the period is not covered by the forecast
+ */
+export function getExposureDose(
+  exposure: UVExposure,
+  start: number,
+  durationMinutes: number
+): { doseSed: number; peakUvIndex: number } | null {
+  const end = start + durationMinutes * MINUTE_MS;
+  const uvMinutes = getUVExposure(exposure, start, end);
+  const peakUvIndex = getPeakUVIndex(exposure, start, end);
+  if (uvMinutes === null || peakUvIndex === null) return null;
+
+  return {
+    doseSed: (uvMinutes * JOULES_PER_M2_PER_UVI_MINUTE) / SED_JOULES_PER_M2,
+    peakUvIndex,
+  };
+}
+
+/**
+ * Get the dose a skin type can take before burning
+ * @param skinType Fitzpatrick skin type
+ * @param spf Sun protection factor of the sunscreen applied, 1 for none
+ * @returns The minimal erythemal dose in SED
+ */
+export function getBurnDoseSed(
+  skinType: FitzpatrickSkinType,
+  spf = 1
+): number {
+  return (
+    (getSkinTypeInfo(skinType).medJoulesPerM2 * Math.max(1, spf)) /
+    SED_JOULES_PER_M2
+  );
+}
+
+/**
+ * Suggest the times for an activity that bring the least UV
+ * Start times are tried every stepMinutes within the allowed hours; slots
+ * above the UV limit or that would reach the skin's burn dose are left out,
+ * and the rest are ranked by dose, skipping any that overlap a better one
+ * @param forecast Forecast samples in chronological order
+ * @param options Activity duration, limits and planning window
+ * @returns One plan per calendar day, today first, possibly without slots
+ */
+export function planActivity(
+  forecast: HourlyUVData[],
+  options: PlannerOptions
+): DayPlan[] {
+  const {
+    durationMinutes,
+    from,
+    timeZone,
+    maxUvIndex,
+    skinType,
+    spf,
+    days,
+    earliestHour,
+    latestHour,
+    stepMinutes,
+    limit,
+  } = { ...DEFAULT_PLANNER_OPTIONS, ...options };
+  const durationMs = durationMinutes * MINUTE_MS;
+  const stepMs = stepMinutes * MINUTE_MS;
+  const burnDose = skinType ? getBurnDoseSed(skinType, spf) : Infinity;
+  // Prepared once, so each slot costs a binary search
+  const exposure = createUVExposure(forecast);
+
+  const dates: string[] = [];
+  for (let day = 0; day < days; day++) {
+    const time = new Date(from + day * 24 * 60 * MINUTE_MS).toISOString();
+    dates.push(getLocalDate(time, timeZone));
+  }
+  const candidates = new Map<string, ActivitySlot[]>(
+    dates.map((date) => [date, []])
+  );
+
+  // Start on the first step boundary from now
+  const lastSample = forecast[forecast.length - 1];
+  const end = lastSample ? new Date(lastSample.time).getTime() : from;
+  for (
+    let start = Math.ceil(from / stepMs) * stepMs;
+    start + durationMs <= end;
+    start += stepMs
+  ) {
+    const startTime = new Date(start).toISOString();
+    const endTime = new Date(start + durationMs).toISOString();
+    const slots = candidates.get(getLocalDate(startTime, timeZone));
+    if (!slots) continue;
+
+    // The activity has to fit within the allowed hours of the same day
+    const startMinutes = getLocalMinutes(start, timeZone);
+    const endMinutes = startMinutes + durationMinutes;
+    if (startMinutes < earliestHour * 60 || endMinutes > latestHour * 60) {
+      continue;
+    }
+
+    const dose = getExposureDose(exposure, start, durationMinutes);
+    if (
+      !dose ||
+      (maxUvIndex !== undefined && dose.peakUvIndex > maxUvIndex) ||
+      dose.doseSed >= burnDose
+    ) {
+      continue;
+    }
+
+    slots.push({ start: startTime, end: endTime, ...dose });
+  }
+
+  return dates.map((date) => ({
+    date,
+    slots: pickBestSlots(candidates.get(date) ?? [], limit),
+  }));
+}
+
+// Take the lowest-dose slots that do not overlap each other, earlier first
+// among equal doses
+const pickBestSlots = (slots: ActivitySlot[], limit: number) => {
+  const ranked = [...slots].sort(
+    (a, b) => a.doseSed - b.doseSed || a.start.localeCompare(b.start)
+  );
+  const picked: ActivitySlot[] = [];
+
+  for (const slot of ranked) {
+    if (picked.length >= limit) break;
+    const overlaps = picked.some(
+      (other) => slot.start < other.end && other.start < slot.end
+    );
+    if (!overlaps) picked.push(slot);
+  }
+
+  return picked;
+};
@@ -0,0 +1,281 @@
+// UV Alert Rules
+// Rule model and a pure evaluator that decides which alerts to send for the
+// latest forecasts, without sending the same alert twice
+
+import { DEFAULT_LOCALE, Locale, formatTime, translate } from "./i18n";
+import { getProtectionIntervals } from "./sunProtection";
+import { LocationData, UVData } from "./types";
+import { getLocalDate } from "./uvForecast";
+
+// Period in local time during which no alerts are sent, e.g. 22:00–07:00
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+interface BaseAlertRule {
+  id: string;
+  name: string;
+  location: LocationData;
+  enabled: boolean;
+  quietHours?: QuietHours;
+}
+
+// Alert when UV at the location is forecast to reach a threshold soon
+export interface ThresholdAlertRule extends BaseAlertRule {
+  type: "threshold";
+  threshold: number;
+  // How far ahead of the crossing to alert, in minutes
+  leadTimeMinutes: number;
+}
+
+// Morning summary with the day's peak UV
+export interface DailySummaryAlertRule extends BaseAlertRule {
+  type: "daily-summary";
+  // Local time to send the summary, as HH:MM
+  time: string;
+}
+
+export type AlertRule = ThresholdAlertRule | DailySummaryAlertRule;
+
+// Record of an alert that has been sent, used for de-duplication
+export interface SentAlert {
+  ruleId: string;
+  // Identifies the event: the crossing time or the summary date
+  key: string;
+  sentAt: number;
+  // Period above the threshold in milliseconds, for threshold alerts; the end
+  // moves on while later forecasts extend the period
+  start?: number;
+  end?: number;
+}
+
+// What evaluating one rule came to
+interface RuleResult {
+  // Absent when the event was notified before
+  notification?: AlertNotification;
+  record: SentAlert;
+  // Earlier record the new one takes the place of
+  replaces?: SentAlert;
+}
+
+export interface AlertNotification {
+  ruleId: string;
+  title: string;
+  body: string;
+  // Used as the notification tag so the browser replaces rather than stacks
+  tag: string;
+}
+
+export interface AlertEvaluation {
+  notifications: AlertNotification[];
+  // Sent log to keep for the next run, including the new notifications
+  sent: SentAlert[];
+}
+
+// Daily summaries are only sent within this long after their time, so opening
+// the app late in the evening does not produce a morning summary
+const SUMMARY_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+// Sent records older than this are dropped
+const SENT_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+/**
+ * Get the local time of day in a time zone
+ * @param time Moment in milliseconds since the epoch
+ * @param timeZone IANA time zone name
+ * @returns Minutes since local midnight
+ */
+export function getLocalMinutes(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(time));
+  const value = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  return value("hour") * 60 + value("minute");
+}
+
+// Parse HH:MM into minutes since midnight
+const parseClock = (clock: string) => {
+  const [hours, minutes] = clock.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Check whether a moment falls in a rule's quiet hours
+ * @param quietHours Quiet period in local time; may wrap past midnight
+ * @param time Moment in milliseconds since the epoch
+ * @param timeZone IANA time zone the quiet hours are in
+ */
+export function isInQuietHours(
+  quietHours: QuietHours | undefined,
+  time: number,
+  timeZone: string
+): boolean {
+  if (!quietHours) return false;
+
+  const minutes = getLocalMinutes(time, timeZone);
+  const start = parseClock(quietHours.start);
+  const end = parseClock(quietHours.end);
+
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Find a threshold crossing to alert about
+ * A crossing qualifies if UV is already above the threshold or reaches it
+ * within the lead time. A period overlapping one notified before is the same
+ * event, however far later forecasts move its start; its record is extended
+ * to the period's latest end instead
+ */
+const evaluateThreshold = (
+  rule: ThresholdAlertRule,
+  data: UVData,
+  now: number,
+  timeZone: string,
+  locale: Locale,
+  sent: SentAlert[]
+): RuleResult | null => {
+  const horizon = now + rule.leadTimeMinutes * 60 * 1000;
+  const crossing = getProtectionIntervals(
+    data.hourlyForecast ?? [],
+    rule.threshold
+  ).find(
+    (interval) =>
+      new Date(interval.start).getTime() <= horizon &&
+      new Date(interval.end).getTime() >= now
+  );
+  if (!crossing) return null;
+
+  const crossingTime = new Date(crossing.start).getTime();
+  const crossingEnd = new Date(crossing.end).getTime();
+  // Records from before periods were kept only have the crossing time
+  const notified = sent.find((record) => {
+    const start = record.start ?? Number(record.key);
+    const end = record.end ?? start;
+    return (
+      record.ruleId === rule.id && start <= crossingEnd && end >= crossingTime
+    );
+  });
+  if (notified) {
+    const end = Math.max(notified.end ?? crossingEnd, crossingEnd);
+    return { record: { ...notified, end }, replaces: notified };
+  }
+
+  const params = {
+    threshold: rule.threshold,
+    peak: crossing.peakUvIndex.toFixed(1),
+    time: formatTime(crossingTime, locale, timeZone),
+  };
+  const body =
+    crossingTime <= now
+      ? translate(locale, "alerts.notify.above", params)
+      : translate(locale, "alerts.notify.reaches", params);
+
+  return {
+    notification: {
+      ruleId: rule.id,
+      title: translate(locale, "alerts.notify.title", { name: rule.name }),
+      body,
+      tag: `${rule.id}:${crossingTime}`,
+    },
+    record: {
+      ruleId: rule.id,
+      key: String(crossingTime),
+      sentAt: now,
+      start: crossingTime,
+      end: crossingEnd,
+    },
+  };
+};
+
+/**
+ * Build the daily summary if it is due and has not been sent today
+ */
+const evaluateDailySummary = (
+  rule: DailySummaryAlertRule,
+  data: UVData,
+  now: number,
+  timeZone: string,
+  locale: Locale,
+  sent: SentAlert[]
+): RuleResult | null => {
+  const sinceSummary =
+    (getLocalMinutes(now, timeZone) - parseClock(rule.time)) * 60 * 1000;
+  if (sinceSummary < 0 || sinceSummary > SUMMARY_WINDOW_MS) return null;
+
+  const today = getLocalDate(new Date(now).toISOString(), timeZone);
+  if (sent.some((record) => record.ruleId === rule.id && record.key === today)) {
+    return null;
+  }
+
+  const summary = data.daily?.find((day) => day.date === today);
+  const maxUvIndex = summary?.maxUvIndex ?? data.maxUvIndex;
+  const maxUvTime = summary?.maxUvTime ?? data.maxUvTime;
+  if (maxUvIndex === undefined || !maxUvTime) return null;
+
+  return {
+    notification: {
+      ruleId: rule.id,
+      title: translate(locale, "alerts.notify.summaryTitle", {
+        name: rule.name,
+      }),
+      body: translate(locale, "alerts.notify.summary", {
+        peak: maxUvIndex.toFixed(1),
+        time: formatTime(maxUvTime, locale, timeZone),
+      }),
+      tag: `${rule.id}:${today}`,
+    },
+    record: { ruleId: rule.id, key: today, sentAt: now },
+  };
+};
+
+/**
+ * Decide which alerts to send
+ * Pure: the caller supplies the forecasts, the clock and the sent log, and
+ * persists the returned sent log
+ * @param rules Alert rules to evaluate
+ * @param forecasts Latest UV data per rule id
+ * @param now Current time in milliseconds
+ * @param sent Alerts sent on earlier runs
+ * @param defaultTimeZone Time zone for data without one
+ * @param locale Language of the notifications
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  forecasts: Record<string, UVData | undefined>,
+  now: number,
+  sent: SentAlert[],
+  defaultTimeZone: string,
+  locale: Locale = DEFAULT_LOCALE
+): AlertEvaluation {
+  let log = sent.filter((record) => now - record.sentAt < SENT_RETENTION_MS);
+  const notifications: AlertNotification[] = [];
+
+  for (const rule of rules) {
+    const data = forecasts[rule.id];
+    if (!rule.enabled || !data) continue;
+
+    const timeZone = data.timeZone ?? defaultTimeZone;
+    if (isInQuietHours(rule.quietHours, now, timeZone)) continue;
+
+    const result =
+      rule.type === "threshold"
+        ? evaluateThreshold(rule, data, now, timeZone, locale, log)
+        : evaluateDailySummary(rule, data, now, timeZone, locale, log);
+
+    if (!result) continue;
+
+    if (result.notification) notifications.push(result.notification);
+    log = log.filter((record) => record !== result.replaces);
+    log.push(result.record);
+  }
+
+  return { notifications, sent: log };
+}
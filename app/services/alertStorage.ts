@@ -0,0 +1,117 @@
+// Alert Storage
+// Persists alert rules and the log of sent alerts in localStorage
+
+import {
+  AlertRule,
+  DailySummaryAlertRule,
+  SentAlert,
+  ThresholdAlertRule,
+} from "./alertRules";
+import { LocationData } from "./types";
+
+const RULES_KEY = "uv-index:alert-rules";
+const SENT_KEY = "uv-index:alert-sent";
+
+// Check that a parsed value looks like an alert rule
+const isAlertRule = (value: unknown): value is AlertRule => {
+  const rule = value as AlertRule | null;
+  if (
+    typeof rule?.id !== "string" ||
+    typeof rule.name !== "string" ||
+    !Number.isFinite(rule.location?.lat) ||
+    !Number.isFinite(rule.location?.lng)
+  ) {
+    return false;
+  }
+
+  return rule.type === "threshold"
+    ? Number.isFinite(rule.threshold) && Number.isFinite(rule.leadTimeMinutes)
+    : rule.type === "daily-summary" && typeof rule.time === "string";
+};
+
+/**
+ * Load the alert rules, ignoring any malformed entries
+ */
+export function loadAlertRules(): AlertRule[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RULES_KEY) || "[]");
+    return Array.isArray(saved) ? saved.filter(isAlertRule) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save the full list of alert rules
+ * @param rules Rules to remember
+ */
+export function saveAlertRules(rules: AlertRule[]): void {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+}
+
+/**
+ * Create an id for a new rule
+ */
+export function createAlertRuleId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Create a threshold rule with the usual defaults
+ * @param name Display name, e.g. "Home"
+ * @param location Location to watch
+ */
+export function createThresholdRule(
+  name: string,
+  location: LocationData
+): ThresholdAlertRule {
+  return {
+    id: createAlertRuleId(),
+    type: "threshold",
+    name,
+    location,
+    enabled: true,
+    threshold: 6,
+    leadTimeMinutes: 60,
+    quietHours: { start: "22:00", end: "07:00" },
+  };
+}
+
+/**
+ * Create a daily summary rule with the usual defaults
+ * @param name Display name, e.g. "Home"
+ * @param location Location to summarize
+ */
+export function createDailySummaryRule(
+  name: string,
+  location: LocationData
+): DailySummaryAlertRule {
+  return {
+    id: createAlertRuleId(),
+    type: "daily-summary",
+    name,
+    location,
+    enabled: true,
+    time: "08:00",
+  };
+}
+
+/**
+ * Load the log of sent alerts
+ */
+export function loadSentAlerts(): SentAlert[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SENT_KEY) || "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save the log of sent alerts
+ * @param sent Alerts sent so far
+ */
+export function saveSentAlerts(sent: SentAlert[]): void {
+  localStorage.setItem(SENT_KEY, JSON.stringify(sent));
+}
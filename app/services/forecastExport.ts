@@ -0,0 +1,245 @@
+// Forecast Export
+// Turns a UV forecast into CSV for spreadsheets and iCalendar for calendar apps
+
+import { ProtectionInterval, getProtectionIntervals } from "./sunProtection";
+import { HourlyUVData, LocationData } from "./types";
+import { getLocalDate, getLocalTimestamp } from "./uvForecast";
+import { UV_SEVERITY_THRESHOLDS, getUVSeverity } from "./uvSeverity";
+
+// UV index from which a period goes into the calendar feed
+export const DEFAULT_CALENDAR_THRESHOLD = UV_SEVERITY_THRESHOLDS.High;
+
+export interface CalendarOptions {
+  // Name shown for the location, e.g. "Stockholm, Sweden"
+  name?: string;
+  // UV index from which a period becomes an event
+  threshold?: number;
+  // Time zone the forecast is split into days in
+  timeZone?: string;
+  // Creation time stamped on the events
+  now?: Date;
+}
+
+// How often calendar apps should re-fetch a subscribed feed
+const CALENDAR_REFRESH_INTERVAL = "PT1H";
+
+// Quote a CSV cell if it contains a separator, quote or line break
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Convert a forecast into CSV
+ * @param forecast Forecast samples in chronological order
+ * @param timeZone Time zone of the local time column
+ * @returns CSV with a header row and UTC time, local time, UV index and
+ * severity columns
+ */
+export function forecastToCsv(
+  forecast: HourlyUVData[],
+  timeZone: string = "UTC"
+): string {
+  const rows = forecast.map((sample) =>
+    [
+      sample.time,
+      getLocalTimestamp(sample.time, timeZone),
+      sample.uvIndex.toFixed(1),
+      getUVSeverity(sample.uvIndex).level,
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+
+  return ["time,local_time,uv_index,severity", ...rows].join("\r\n") + "\r\n";
+}
+
+/**
+ * Split a period at local midnight, so each part lies within one day
+ * The day boundary is found by bisection
+ */
+const splitByDay = (
+  interval: ProtectionInterval,
+  forecast: HourlyUVData[],
+  timeZone: string
+): ProtectionInterval[] => {
+  const startMs = new Date(interval.start).getTime();
+  const endMs = new Date(interval.end).getTime();
+  const startDate = getLocalDate(interval.start, timeZone);
+  if (getLocalDate(interval.end, timeZone) === startDate) return [interval];
+
+  let low = startMs;
+  let high = endMs;
+  while (high - low > 60 * 1000) {
+    const middle = Math.floor((low + high) / 2);
+    if (getLocalDate(new Date(middle).toISOString(), timeZone) === startDate) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  // Peak of the samples in a part, falling back to the period's peak
+  const peakBetween = (from: number, to: number) => {
+    const values = forecast
+      .filter((sample) => {
+        const time = new Date(sample.time).getTime();
+        return time >= from && time <= to;
+      })
+      .map((sample) => sample.uvIndex);
+    return values.length > 0 ? Math.max(...values) : interval.peakUvIndex;
+  };
+
+  // Midnight falls on a whole minute in every time zone
+  high = Math.floor(high / 60000) * 60000;
+  const midnight = new Date(high).toISOString();
+  return [
+    {
+      start: interval.start,
+      end: midnight,
+      peakUvIndex: peakBetween(startMs, high),
+    },
+    ...splitByDay(
+      {
+        start: midnight,
+        end: interval.end,
+        peakUvIndex: peakBetween(high, endMs),
+      },
+      forecast,
+      timeZone
+    ),
+  ];
+};
+
+// Format a date as an iCalendar UTC date-time, e.g. 20250621T103000Z
+const icsDate = (time: string | Date) =>
+  new Date(time)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+// Escape text for an iCalendar property value
+const icsText = (text: string) =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\n/g, "\\n");
+
+// Fold a content line at 75 octets as RFC 5545 requires
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let rest = line;
+  while (new TextEncoder().encode(rest).length > 75) {
+    let cut = 75;
+    while (new TextEncoder().encode(rest.slice(0, cut)).length > 75) cut--;
+    parts.push(rest.slice(0, cut));
+    rest = " " + rest.slice(cut);
+  }
+  return [...parts, rest].join("\r\n");
+};
+
+/**
+ * Convert a forecast into an iCalendar feed with one event per contiguous
+ * high-UV period per day
+ * Event UIDs are derived from the location and the day, so a re-fetched feed
+ * updates the existing events instead of adding duplicates
+ * @param forecast Forecast samples in chronological order
+ * @param location Location the forecast is for
+ * @param options Name, threshold, time zone and creation time
+ * @returns The feed as an iCalendar document
+ */
+export function forecastToICalendar(
+  forecast: HourlyUVData[],
+  location: LocationData,
+  options: CalendarOptions = {}
+): string {
+  const {
+    threshold = DEFAULT_CALENDAR_THRESHOLD,
+    timeZone = "UTC",
+    now = new Date(),
+  } = options;
+  const name =
+    options.name ??
+    location.address ??
+    `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`;
+  const coordinates = `${location.lat.toFixed(4)},${location.lng.toFixed(4)}`;
+
+  const periods = getProtectionIntervals(forecast, threshold).flatMap(
+    (interval) => splitByDay(interval, forecast, timeZone)
+  );
+
+  // Number the periods within each day for stable UIDs
+  const perDay = new Map<string, number>();
+  const events = periods.flatMap((period) => {
+    const date = getLocalDate(period.start, timeZone);
+    const index = perDay.get(date) ?? 0;
+    perDay.set(date, index + 1);
+
+    return [
+      "BEGIN:VEVENT",
+      `UID:${date}-${index}-${coordinates}@uv-index`,
+      `DTSTAMP:${icsDate(now)}`,
+      `DTSTART:${icsDate(period.start)}`,
+      `DTEND:${icsDate(period.end)}`,
+      `SUMMARY:${icsText(`High UV (peak ${period.peakUvIndex.toFixed(1)}) – ${name}`)}`,
+      `DESCRIPTION:${icsText(
+        `UV index at or above ${threshold}, peaking at ${period.peakUvIndex.toFixed(1)} (${getUVSeverity(period.peakUvIndex).level}). Use sun protection.`
+      )}`,
+      `LOCATION:${icsText(name)}`,
+      `GEO:${location.lat.toFixed(4)};${location.lng.toFixed(4)}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ];
+  });
+
+  return (
+    [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//UV Index Tracker//UV Forecast//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${icsText(`UV ${name}`)}`,
+      `REFRESH-INTERVAL;VALUE=DURATION:${CALENDAR_REFRESH_INTERVAL}`,
+      `X-PUBLISHED-TTL:${CALENDAR_REFRESH_INTERVAL}`,
+      ...events,
+      "END:VCALENDAR",
+    ]
+      .map(foldLine)
+      .join("\r\n") + "\r\n"
+  );
+}
+
+/**
+ * Build the export URLs for a location
+ * @param origin Origin the app is served from, e.g. https://uv.example.com
+ * @param location Location the export is for
+ * @param timeZone Time zone the feed splits days in and the CSV's local times
+ * are given in
+ * @returns CSV download URL, iCalendar URL and a webcal:// subscription URL
+ */
+export function getExportUrls(
+  origin: string,
+  location: LocationData,
+  timeZone: string
+): { csv: string; ics: string; subscribe: string } {
+  const params = new URLSearchParams({
+    lat: location.lat.toFixed(4),
+    lng: location.lng.toFixed(4),
+    tz: timeZone,
+  });
+  if (location.altitude !== undefined) {
+    params.set("alt", String(Math.round(location.altitude)));
+  }
+  if (location.address) {
+    params.set("name", location.address);
+  }
+
+  const ics = `${origin}/api/export/forecast.ics?${params}`;
+  return {
+    csv: `${origin}/api/export/forecast.csv?${params}`,
+    ics,
+    subscribe: ics.replace(/^https?:/, "webcal:"),
+  };
+}
@@ -0,0 +1,187 @@
+// UV History Recorder
+// Periodically samples the configured providers for a list of locations and
+// stores the readings, plus a few forecasts to check them against later
+
+import { HistoryStore, Observation, getHistoryStore } from "./historyStore";
+import { ForecastOptions, LocationData, UVData, UVProvider } from "./types";
+import { toUVError } from "./uvErrors";
+import { getProviderPriority, getUVProvider, uvCache } from "./uvProviders";
+
+// A location the recorder samples
+export interface HistoryLocation {
+  id: string;
+  name: string;
+  location: LocationData;
+}
+
+// Forecast lead times kept for the accuracy comparison, in hours
+export const FORECAST_LEAD_HOURS = [1, 3, 6, 12, 24];
+
+const DEFAULT_RECORD_INTERVAL_MINUTES = 60;
+
+// Long enough to cover the longest lead time
+const RECORD_FORECAST: ForecastOptions = { days: 2, intervalMinutes: 60 };
+
+// Turn a place name into an id, e.g. "Malmö Centrum" into "malmo-centrum"
+const slugify = (name: string) =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+/**
+ * Parse the list of locations to record
+ * @param value Entries of the form name:lat,lng separated by semicolons,
+ * e.g. "Stockholm:59.33,18.07;Göteborg:57.71,11.97"
+ * @returns The valid entries; malformed ones are skipped
+ */
+export function parseHistoryLocations(
+  value: string | undefined
+): HistoryLocation[] {
+  return (value || "").split(";").flatMap((entry) => {
+    const match = entry.trim().match(/^(.+):\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)$/);
+    if (!match) return [];
+
+    const name = match[1].trim();
+    const lat = Number(match[2]);
+    const lng = Number(match[3]);
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return [];
+
+    return [
+      { id: slugify(name), name, location: { lat, lng, address: name } },
+    ];
+  });
+}
+
+/**
+ * Get the locations configured in UV_HISTORY_LOCATIONS
+ */
+export function getHistoryLocations(): HistoryLocation[] {
+  return parseHistoryLocations(process.env.UV_HISTORY_LOCATIONS);
+}
+
+/**
+ * Turn a provider response into observations: the current reading plus the
+ * forecast sample nearest each lead time
+ * @param locationId Id of the recorded location
+ * @param data The provider's data
+ * @param recordedAt Recording time in milliseconds
+ */
+export function toObservations(
+  locationId: string,
+  data: UVData,
+  recordedAt: number
+): Observation[] {
+  const recorded = new Date(recordedAt).toISOString();
+  const observations: Observation[] = [
+    {
+      locationId,
+      provider: data.provider,
+      kind: "observed",
+      time: data.timestamp,
+      recordedAt: recorded,
+      uvIndex: data.uvIndex,
+    },
+  ];
+
+  const forecast = data.hourlyForecast ?? [];
+  for (const leadHours of FORECAST_LEAD_HOURS) {
+    const target = recordedAt + leadHours * 60 * 60 * 1000;
+    const sample = forecast.find(
+      (candidate) =>
+        Math.abs(new Date(candidate.time).getTime() - target) <= 30 * 60 * 1000
+    );
+
+    if (sample) {
+      observations.push({
+        locationId,
+        provider: data.provider,
+        kind: "forecast",
+        time: sample.time,
+        recordedAt: recorded,
+        uvIndex: sample.uvIndex,
+        leadHours,
+      });
+    }
+  }
+
+  return observations;
+}
+
+/**
+ * Sample every provider for every location once and store the results
+ * A failing provider is logged and skipped so the others are still recorded.
+ * Modelled clear-sky data is not recorded, since it is no observation
+ * @param store Where to store the observations
+ * @param locations Locations to sample
+ * @param providers Providers to sample
+ * @param now Current time in milliseconds
+ * @returns The number of observations stored
+ */
+export async function recordHistory(
+  store: HistoryStore,
+  locations: HistoryLocation[],
+  providers: UVProvider[],
+  now: number = Date.now()
+): Promise<number> {
+  const batches = await Promise.all(
+    locations.flatMap((entry) =>
+      providers.map(async (provider) => {
+        try {
+          const data = await uvCache.get(
+            provider.id,
+            entry.location,
+            RECORD_FORECAST,
+            provider.fetchUVData
+          );
+          return data.clearSky ? [] : toObservations(entry.id, data, now);
+        } catch (error) {
+          const { message } = toUVError(error, provider.id);
+          console.error(
+            `History: ${provider.id} failed for ${entry.name}: ${message}`
+          );
+          return [];
+        }
+      })
+    )
+  );
+
+  const observations = batches.flat();
+  await store.append(observations);
+  return observations.length;
+}
+
+/**
+ * Start recording the configured locations on a timer
+ * Does nothing when UV_HISTORY_LOCATIONS is empty. The interval is set with
+ * UV_HISTORY_INTERVAL_MINUTES
+ * @returns A function that stops the recorder
+ */
+export function startHistoryRecorder(): () => void {
+  const locations = getHistoryLocations();
+  if (locations.length === 0) return () => undefined;
+
+  const intervalMinutes =
+    Number(process.env.UV_HISTORY_INTERVAL_MINUTES) ||
+    DEFAULT_RECORD_INTERVAL_MINUTES;
+
+  const run = async () => {
+    const providers = getProviderPriority()
+      .map((id) => getUVProvider(id))
+      .filter((provider): provider is UVProvider =>
+        Boolean(provider?.isConfigured())
+      );
+
+    try {
+      await recordHistory(getHistoryStore(), locations, providers);
+    } catch (error) {
+      console.error("History: recording failed:", error);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  return () => clearInterval(timer);
+}
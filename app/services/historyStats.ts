@@ -0,0 +1,224 @@
+// UV History Statistics
+// Daily peaks, weekly and monthly peaks and forecast accuracy computed from
+// recorded observations
+
+// Type-only, so the file system based store stays out of browser bundles
+import type { Observation } from "./historyStore";
+import { UVProviderId } from "./types";
+import { getLocalDate } from "./uvForecast";
+import { UV_SEVERITY_THRESHOLDS } from "./uvSeverity";
+
+// Peak of the readings recorded on one local calendar day
+export interface DailyHistory {
+  date: string;
+  maxUvIndex: number;
+  maxUvTime: string;
+  // Number of readings the peak was taken from
+  readings: number;
+}
+
+// Peak over a week or month
+export interface PeriodPeak {
+  // ISO week such as "2025-W25", or month such as "2025-06"
+  period: string;
+  maxUvIndex: number;
+  // Day the peak was on
+  date: string;
+}
+
+// How well one provider's forecasts at one lead time matched its readings
+export interface ForecastAccuracy {
+  provider: UVProviderId;
+  leadHours: number;
+  // Number of forecasts with a matching reading
+  count: number;
+  meanAbsoluteError: number;
+  // Mean of forecast minus reading; positive means forecasts run high
+  bias: number;
+}
+
+// History of one recorded location, as served by /api/history
+export interface HistoryReport {
+  locations: { id: string; name: string }[];
+  // Location the report is for, null when none are configured
+  location: string | null;
+  // Providers with readings for the location
+  providers: UVProviderId[];
+  // Provider the peaks are taken from
+  provider: UVProviderId | null;
+  timeZone: string;
+  daily: DailyHistory[];
+  weekly: PeriodPeak[];
+  monthly: PeriodPeak[];
+  // Days whose peak reached "Very High"
+  veryHighDays: number;
+  accuracy: ForecastAccuracy[];
+}
+
+// Readings this close to a forecast's time count as its outcome
+const MATCH_TOLERANCE_MS = 30 * 60 * 1000;
+
+/**
+ * Find the peak reading of each local calendar day
+ * @param observations Recorded observations; forecasts are ignored
+ * @param timeZone IANA time zone the days are counted in
+ * @returns One entry per day with readings, oldest first
+ */
+export function summarizeHistoryByDay(
+  observations: Observation[],
+  timeZone: string
+): DailyHistory[] {
+  const days = new Map<string, DailyHistory>();
+
+  for (const observation of observations) {
+    if (observation.kind !== "observed") continue;
+
+    const date = getLocalDate(observation.time, timeZone);
+    const day = days.get(date);
+    if (!day) {
+      days.set(date, {
+        date,
+        maxUvIndex: observation.uvIndex,
+        maxUvTime: observation.time,
+        readings: 1,
+      });
+      continue;
+    }
+
+    day.readings++;
+    if (observation.uvIndex > day.maxUvIndex) {
+      day.maxUvIndex = observation.uvIndex;
+      day.maxUvTime = observation.time;
+    }
+  }
+
+  return Array.from(days.values()).sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+}
+
+/**
+ * Get the ISO 8601 week of a calendar date
+ * @param date Date as YYYY-MM-DD
+ * @returns The week as YYYY-Www
+ */
+export function getIsoWeek(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  // The week belongs to the year its Thursday falls in
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Find the peak of each week or month
+ * @param days Daily peaks, as from summarizeHistoryByDay
+ * @param period Whether to group by ISO week or calendar month
+ * @returns One entry per period, oldest first
+ */
+export function getPeriodPeaks(
+  days: DailyHistory[],
+  period: "week" | "month"
+): PeriodPeak[] {
+  const peaks = new Map<string, PeriodPeak>();
+
+  for (const day of days) {
+    const key =
+      period === "week" ? getIsoWeek(day.date) : day.date.slice(0, 7);
+    const peak = peaks.get(key);
+    if (!peak || day.maxUvIndex > peak.maxUvIndex) {
+      peaks.set(key, {
+        period: key,
+        maxUvIndex: day.maxUvIndex,
+        date: day.date,
+      });
+    }
+  }
+
+  return Array.from(peaks.values()).sort((a, b) =>
+    a.period.localeCompare(b.period)
+  );
+}
+
+/**
+ * Count the days whose peak reached a UV level
+ * @param days Daily peaks
+ * @param threshold UV index to reach, by default the start of "Very High"
+ */
+export function countDaysAtOrAbove(
+  days: DailyHistory[],
+  threshold: number = UV_SEVERITY_THRESHOLDS["Very High"]
+): number {
+  return days.filter((day) => day.maxUvIndex >= threshold).length;
+}
+
+/**
+ * Compare stored forecasts with the readings later recorded for the same
+ * location, provider and time
+ * @param observations Recorded observations and forecasts
+ * @returns Accuracy per provider and lead time, for pairs that could be matched
+ */
+export function getForecastAccuracy(
+  observations: Observation[]
+): ForecastAccuracy[] {
+  // Readings by location and provider, to look up a forecast's outcome
+  const readings = new Map<string, Observation[]>();
+  for (const observation of observations) {
+    if (observation.kind !== "observed") continue;
+    const key = `${observation.locationId}:${observation.provider}`;
+    const list = readings.get(key) ?? [];
+    list.push(observation);
+    readings.set(key, list);
+  }
+
+  const totals = new Map<
+    string,
+    { provider: UVProviderId; leadHours: number; errors: number[] }
+  >();
+
+  for (const forecast of observations) {
+    if (forecast.kind !== "forecast" || forecast.leadHours === undefined) {
+      continue;
+    }
+
+    const time = Date.parse(forecast.time);
+    const candidates =
+      readings.get(`${forecast.locationId}:${forecast.provider}`) ?? [];
+    let outcome: Observation | null = null;
+    let closest = MATCH_TOLERANCE_MS;
+    for (const reading of candidates) {
+      const distance = Math.abs(Date.parse(reading.time) - time);
+      if (distance <= closest) {
+        outcome = reading;
+        closest = distance;
+      }
+    }
+    if (!outcome) continue;
+
+    const key = `${forecast.provider}:${forecast.leadHours}`;
+    const total = totals.get(key) ?? {
+      provider: forecast.provider,
+      leadHours: forecast.leadHours,
+      errors: [],
+    };
+    total.errors.push(forecast.uvIndex - outcome.uvIndex);
+    totals.set(key, total);
+  }
+
+  return Array.from(totals.values())
+    .map(({ provider, leadHours, errors }) => ({
+      provider,
+      leadHours,
+      count: errors.length,
+      meanAbsoluteError:
+        errors.reduce((sum, error) => sum + Math.abs(error), 0) / errors.length,
+      bias: errors.reduce((sum, error) => sum + error, 0) / errors.length,
+    }))
+    .sort(
+      (a, b) =>
+        a.provider.localeCompare(b.provider) || a.leadHours - b.leadHours
+    );
+}
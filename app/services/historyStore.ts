@@ -0,0 +1,123 @@
+// UV History Store
+// Append-only storage of recorded UV readings and the forecasts made for them,
+// kept in a JSON Lines file so no database is needed
+
+import { appendFile, mkdir, readFile } from "fs/promises";
+import path from "path";
+import { UVProviderId } from "./types";
+
+// A single stored value
+export interface Observation {
+  // Id of the recorded location, see HistoryLocation
+  locationId: string;
+  provider: UVProviderId;
+  // "observed" is the provider's reading for now, "forecast" its prediction
+  kind: "observed" | "forecast";
+  // Time the value is for
+  time: string;
+  // Time the value was recorded
+  recordedAt: string;
+  uvIndex: number;
+  // Hours between recording and the forecast time, for forecasts
+  leadHours?: number;
+}
+
+export interface HistoryQuery {
+  locationId?: string;
+  // Only observations whose time is at or after this
+  from?: string;
+  // Only observations whose time is before this
+  to?: string;
+}
+
+// Pluggable backend, so the file can be swapped for a database
+export interface HistoryStore {
+  append(observations: Observation[]): Promise<void>;
+  query(query?: HistoryQuery): Promise<Observation[]>;
+}
+
+// Directory the history file is kept in; mount a volume here in Docker
+const DEFAULT_HISTORY_DIR = "data";
+const HISTORY_FILE = "uv-history.jsonl";
+
+// Check that a parsed line looks like an observation
+const isObservation = (value: unknown): value is Observation => {
+  const observation = value as Observation | null;
+  return (
+    typeof observation?.locationId === "string" &&
+    typeof observation.time === "string" &&
+    Number.isFinite(observation.uvIndex)
+  );
+};
+
+/**
+ * Create a store backed by a JSON Lines file, one observation per line
+ * Unreadable lines, e.g. from a write cut short, are skipped
+ * @param file Path of the file; created on the first append
+ */
+export function createFileHistoryStore(file: string): HistoryStore {
+  return {
+    async append(observations) {
+      if (observations.length === 0) return;
+
+      await mkdir(path.dirname(file), { recursive: true });
+      await appendFile(
+        file,
+        observations
+          .map((observation) => JSON.stringify(observation) + "\n")
+          .join("")
+      );
+    },
+    async query(query = {}) {
+      let contents: string;
+      try {
+        contents = await readFile(file, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+      }
+
+      const from = query.from ? Date.parse(query.from) : -Infinity;
+      const to = query.to ? Date.parse(query.to) : Infinity;
+
+      return contents.split("\n").flatMap((line) => {
+        if (!line.trim()) return [];
+        try {
+          const observation: unknown = JSON.parse(line);
+          if (!isObservation(observation)) return [];
+
+          const time = Date.parse(observation.time);
+          const matches =
+            (!query.locationId ||
+              observation.locationId === query.locationId) &&
+            time >= from &&
+            time < to;
+          return matches ? [observation] : [];
+        } catch {
+          return [];
+        }
+      });
+    },
+  };
+}
+
+let historyStore: HistoryStore | null = null;
+
+/**
+ * Get the shared history store
+ * The file lives in UV_HISTORY_DIR, by default ./data
+ */
+export function getHistoryStore(): HistoryStore {
+  historyStore ??= createFileHistoryStore(
+    path.join(process.env.UV_HISTORY_DIR || DEFAULT_HISTORY_DIR, HISTORY_FILE)
+  );
+  return historyStore;
+}
+
+/**
+ * Replace the shared history store, e.g. with a database backed one
+ * @param store The store to use
+ */
+export function setHistoryStore(store: HistoryStore): void {
+  historyStore = store;
+}
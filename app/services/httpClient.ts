@@ -0,0 +1,274 @@
+// HTTP Client
+// Shared fetch wrapper for the UV services with timeouts, retries with
+// exponential backoff, Retry-After support and client-side rate limiting
+
+import { UVProviderId } from "./types";
+import { UVServiceError } from "./uvErrors";
+
+// Statuses worth retrying: the request may well succeed a little later
+const RETRIABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// Client-side rate limiter shared by all requests to one upstream
+export interface TokenBucket {
+  // Wait until a request may be sent, rejecting if the signal aborts first
+  take(signal?: AbortSignal): Promise<void>;
+}
+
+export interface TokenBucketOptions {
+  // Most requests that can be sent in a burst
+  capacity: number;
+  // Requests allowed per second on average
+  refillPerSecond: number;
+  // Clock, injectable for tests
+  now?: () => number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+export interface RequestOptions extends RequestInit {
+  // Time allowed for each attempt, including reading the body, in milliseconds
+  timeoutMs?: number;
+  // Retries after the first attempt
+  retries?: number;
+  // Base delay for exponential backoff in milliseconds
+  backoffMs?: number;
+  // Longest wait between attempts, including Retry-After, in milliseconds
+  maxDelayMs?: number;
+  rateLimiter?: TokenBucket;
+  // Provider the request is made for, named in the errors thrown
+  provider?: UVProviderId;
+  // Injectable for tests
+  fetch?: typeof fetch;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  random?: () => number;
+}
+
+// How a provider reaches its upstream API, injectable so tests can point it
+// at a mock server with a fixed clock
+export interface UpstreamClient {
+  // Base URL of the API, replacing the real one
+  baseUrl?: string;
+  // Current time in milliseconds
+  now?: () => number;
+  // Overrides of the request settings, e.g. fetch, timeouts and retries
+  request?: RequestOptions;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BACKOFF_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+// Error thrown for an aborted operation, matching what fetch rejects with
+const abortError = () => new DOMException("The operation was aborted", "AbortError");
+
+/**
+ * Wait for a number of milliseconds, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Create a token bucket rate limiter
+ * @param options Burst capacity and refill rate
+ */
+export function createTokenBucket(options: TokenBucketOptions): TokenBucket {
+  const now = options.now ?? Date.now;
+  const wait = options.sleep ?? sleep;
+  let tokens = options.capacity;
+  let updatedAt = now();
+
+  const refill = () => {
+    const current = now();
+    tokens = Math.min(
+      options.capacity,
+      tokens + ((current - updatedAt) / 1000) * options.refillPerSecond
+    );
+    updatedAt = current;
+  };
+
+  return {
+    async take(signal) {
+      refill();
+      while (tokens < 1) {
+        await wait(((1 - tokens) / options.refillPerSecond) * 1000, signal);
+        refill();
+      }
+      tokens -= 1;
+    },
+  };
+}
+
+/**
+ * Parse a Retry-After header
+ * @param value Header value, either seconds or an HTTP date
+ * @param now Current time in milliseconds
+ * @returns The delay in milliseconds, or null if absent or unparseable
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now()
+): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Call release once the response body has been read to the end, has failed
+ * or has been cancelled
+ * @param response Response whose body to watch
+ * @param release Called when the body is done, or straight away if it has none
+ */
+function releaseAfterBody(response: Response, release: () => void): Response {
+  if (!response.body) {
+    release();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        throw error;
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Fetch with a timeout per attempt and retries on network errors and
+ * retriable statuses. The last response is returned once retries run out,
+ * so callers still decide what a non-2xx status means. The timeout keeps
+ * running until the returned body has been read, so a stalled body fails
+ * rather than hangs
+ * @param url URL to request
+ * @param options fetch options plus timeout, retry and rate limit settings
+ * @throws UVServiceError of kind "network" when every attempt times out or
+ * fails; reading the body rejects with it too when the timeout runs out
+ * @throws AbortError when options.signal aborts
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: RequestOptions = {}
+): Promise<Response> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    backoffMs = DEFAULT_BACKOFF_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    rateLimiter,
+    provider,
+    fetch: send = fetch,
+    sleep: wait = sleep,
+    random = Math.random,
+    signal,
+    ...init
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    const isLastAttempt = attempt >= retries;
+    // Full jitter keeps many clients from retrying in lockstep
+    let delay = Math.min(maxDelayMs, backoffMs * 2 ** attempt) * random();
+
+    await rateLimiter?.take(signal ?? undefined);
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    // Aborting with the error makes a body read that outlasts it reject too
+    const timer = setTimeout(
+      () =>
+        controller.abort(
+          new UVServiceError({
+            kind: "network",
+            message: `Request timed out after ${timeoutMs} ms`,
+            provider,
+          })
+        ),
+      timeoutMs
+    );
+    const release = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    // Left running for the body of a response handed to the caller
+    let keepTimer = false;
+
+    try {
+      const response = await send(url, { ...init, signal: controller.signal });
+
+      if (isLastAttempt || !RETRIABLE_STATUSES.includes(response.status)) {
+        keepTimer = true;
+        return releaseAfterBody(response, release);
+      }
+
+      // Release the connection of the response being discarded
+      await response.body?.cancel().catch(() => undefined);
+
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+      if (retryAfter !== null) {
+        delay = Math.min(maxDelayMs, retryAfter);
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw abortError();
+      }
+
+      if (isLastAttempt) {
+        throw controller.signal.aborted
+          ? controller.signal.reason
+          : new UVServiceError({
+              kind: "network",
+              message:
+                error instanceof Error ? error.message : "Request failed",
+              provider,
+            });
+      }
+    } finally {
+      if (!keepTimer) release();
+    }
+
+    await wait(delay, signal ?? undefined);
+  }
+}
@@ -0,0 +1,665 @@
+// Internationalization
+// Message catalogues, locale detection and locale-aware date formatting
+
+export const SUPPORTED_LOCALES = ["en", "sv"] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Names of the locales in their own language, for the language switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  sv: "Svenska",
+};
+
+// Language tags used for number and date formatting. English uses the British
+// conventions so times read as 24-hour clock like the Swedish ones
+const LOCALE_TAGS: Record<Locale, string> = {
+  en: "en-GB",
+  sv: "sv-SE",
+};
+
+const STORAGE_KEY = "uv-index:locale";
+
+const en = {
+  "app.title": "UV Index Tracker",
+  "app.tagline": "Get real-time UV index data for your location",
+  "nav.dashboard": "Compare saved locations →",
+  "nav.alerts": "UV alerts →",
+  "nav.history": "History →",
+  "nav.compare": "Compare providers →",
+  "nav.planner": "Plan an activity →",
+  "language.label": "Language",
+  "palette.label": "Colours",
+  "palette.who": "WHO colours",
+  "palette.colorblind": "Colour-blind safe",
+
+  "severity.Low": "Low",
+  "severity.Moderate": "Moderate",
+  "severity.High": "High",
+  "severity.Very High": "Very High",
+  "severity.Extreme": "Extreme",
+  "advice.Low": "Low danger from UV rays. No protection needed.",
+  "advice.Moderate": "Moderate risk from UV rays. Wear sunscreen.",
+  "advice.High":
+    "High risk from UV rays. Wear sunscreen and protective clothing.",
+  "advice.Very High": "Very high risk from UV rays. Take extra precautions.",
+  "advice.Extreme":
+    "Extreme risk from UV rays. Avoid being outside during midday hours.",
+  "action.none": "No protection needed",
+  "action.shade": "Seek shade during midday hours",
+  "action.clothing": "Wear a shirt",
+  "action.hat": "Wear a hat",
+  "action.sunglasses": "Wear sunglasses",
+  "action.sunscreen": "Put on sunscreen",
+  "action.avoid-midday": "Avoid being outside during midday hours",
+
+  "error.auth.title": "Provider Access Denied",
+  "error.auth.message":
+    "The UV data provider rejected our credentials. Please contact the administrator.",
+  "error.rate-limited.title": "Too Many Requests",
+  "error.rate-limited.message":
+    "The UV data provider is limiting requests. Please try again in a few minutes.",
+  "error.network.title": "Connection Problem",
+  "error.network.message":
+    "Could not reach the UV data service. Check your connection and try again.",
+  "error.malformed.title": "Unreadable Data",
+  "error.malformed.message":
+    "The UV data provider sent data we could not read, so no reading is shown rather than a possibly wrong one.",
+  "error.out-of-range.title": "Implausible Reading",
+  "error.out-of-range.message":
+    "The UV data provider reported an impossible value, so no reading is shown rather than a possibly wrong one.",
+  "error.geolocation-denied.title": "Location Access Denied",
+  "error.geolocation-denied.message":
+    "Search for a place or enter coordinates to see the UV index.",
+  "error.geolocation-unavailable.title": "Location Unavailable",
+  "error.geolocation-unavailable.message":
+    "Your location could not be found. Search for a place or enter coordinates instead.",
+  "error.not-configured.title": "No Provider Available",
+  "error.not-configured.message":
+    "No UV data provider is configured on the server.",
+  "error.title": "Error",
+
+  "display.loading": "Loading UV index data...",
+  "display.noData.title": "No Data Available",
+  "display.noData.message":
+    "Unable to retrieve UV index information at this time.",
+  "display.current": "Current UV Index",
+  "display.updatedNow": "Updated just now",
+  "display.updatedAgo": "Updated {minutes} min ago",
+  "display.stale": "stale",
+  "display.offline": "Offline – data from {time}",
+  "display.estimate":
+    "Live UV data is unavailable. Showing a clear-sky estimate from the sun's position; actual UV may be lower under cloud.",
+  "display.today": "Today",
+  "display.maxUv": "Max UV {day}",
+  "display.maxTime": "Max Time",
+  "display.hoursAbove": "{hours}h {level}+",
+  "display.noHoursAbove": "No hours above {level}",
+  "display.protectionNeeded": "Protection needed",
+  "display.noProtection":
+    "No sun protection needed (UV stays below {threshold})",
+  "display.hourlyForecast": "Hourly UV Forecast",
+  "display.sunburnRisk": "Your Sunburn Risk",
+  "display.timeToSunburn": "Time to sunburn from {time}:",
+  "display.noSunburn": "No sunburn expected within the next 24 hours.",
+  "display.location": "Location:",
+  "display.downloadCsv": "Download CSV",
+  "display.subscribe": "Subscribe in calendar",
+  "display.subscribeHint":
+    "Adds the high-UV periods to your calendar and keeps them up to date",
+  "display.poweredBy": "Powered by {source}",
+  "display.fallbackUsed": "Fallback used:",
+
+  "adjust.surface": "Surroundings",
+  "adjust.reported": "Reported {value}",
+  "adjust.adjusted": "Adjusted",
+  "adjust.raw": "Reported",
+  "adjust.cloud": "Cloud cover {cover}%: included in the reported value",
+  "adjust.elevation":
+    "Altitude {altitude} m (modelled at {elevation} m): ×{factor}",
+  "adjust.reflection": "Reflection ({surface}): ×{factor}",
+
+  "surface.none": "No reflection",
+  "surface.grass": "Grass",
+  "surface.water": "Water",
+  "surface.sand": "Sand",
+  "surface.snow": "Snow",
+
+  "badge.title": "UV index",
+  "badge.unavailable": "unavailable",
+
+  "embed.openApp": "Open UV Index Tracker",
+
+  "planner.prompt": "Pick a place to plan for.",
+  "planner.duration": "Duration",
+  "planner.maxUv": "Highest acceptable UV",
+  "planner.noLimit": "No limit",
+  "planner.tomorrow": "Tomorrow",
+  "planner.best": "Best {duration}:",
+  "planner.slot": "{start}–{end}, dose {dose} SED, peak UV {peak}",
+  "planner.noSlot": "No time keeps within your limits.",
+  "planner.loading": "Loading the forecast...",
+  "planner.sedHint":
+    "1 SED (standard erythema dose) is 100 J/m² of sunburning UV. Fair skin starts to burn at about 2–3 SED; slots that would burn your skin type are left out.",
+  "duration.minutes": "{minutes} min",
+  "duration.hours": "{hours} h {minutes} min",
+  "duration.wholeHours": "{hours} h",
+
+  "page.back": "← Back to UV Index Tracker",
+  "page.alerts.title": "UV Alerts",
+  "page.alerts.description":
+    "Get notified before the UV index gets high, or every morning",
+  "page.compare.title": "Compare Providers",
+  "page.compare.description":
+    "See how far the UV data providers disagree for the same place",
+  "page.dashboard.title": "Saved Locations",
+  "page.dashboard.description": "Compare the UV index across your saved sites",
+  "page.history.title": "UV History",
+  "page.history.description":
+    "Recorded UV peaks and how well the forecasts held up",
+  "page.planner.title": "Activity Planner",
+  "page.planner.description":
+    "Find the time today or tomorrow that brings the least UV",
+
+  "common.loading": "Loading...",
+  "common.noData": "No data",
+  "common.remove": "Remove",
+  "common.removeNamed": "Remove {name}",
+  "common.location": "Location",
+  "common.provider": "Provider",
+  "common.todaysPeak": "Today's peak",
+  "common.noReadings": "No readings yet.",
+
+  "location.near": "Near {place}",
+  "coordinates.latitudeNotNumber": "Latitude must be a number",
+  "coordinates.longitudeNotNumber": "Longitude must be a number",
+  "coordinates.latitudeRange": "Latitude must be between -90 and 90",
+  "coordinates.longitudeRange": "Longitude must be between -180 and 180",
+
+  "alerts.unsupported": "This browser does not support notifications.",
+  "alerts.blocked":
+    "Notifications are blocked. Allow them in your browser settings to receive alerts.",
+  "alerts.allow": "Allow notifications to receive UV alerts.",
+  "alerts.enable": "Enable",
+  "alerts.namePlaceholder": "Name, e.g. Home",
+  "alerts.name": "Alert name",
+  "alerts.type": "Alert type",
+  "alerts.threshold": "UV threshold",
+  "alerts.thresholdAlert": "UV threshold alert",
+  "alerts.dailySummary": "Daily summary",
+  "alerts.add": "Add alert",
+  "alerts.empty": "No alerts yet. Search for a place above to add one.",
+  "alerts.enabled": "Enabled",
+  "alerts.atOrAbove": "UV at or above",
+  "alerts.leadTime": "Warn ahead",
+  "alerts.sendAt": "Send at",
+  "alerts.quietFrom": "Quiet from",
+  "alerts.quietUntil": "Quiet until",
+  "alerts.checkHint":
+    "Alerts are checked every 15 minutes while the app is open in a tab.",
+  "alerts.notify.title": "UV alert: {name}",
+  "alerts.notify.above":
+    "UV is at or above {threshold} now, peaking at {peak}.",
+  "alerts.notify.reaches":
+    "UV will reach {threshold} at {time}, peaking at {peak}.",
+  "alerts.notify.summaryTitle": "Today's UV: {name}",
+  "alerts.notify.summary": "UV peaks at {peak} around {time}.",
+
+  "dashboard.namePlaceholder": "Name, e.g. Office",
+  "dashboard.name": "Location name",
+  "dashboard.save": "Save location",
+  "dashboard.empty":
+    "No saved locations yet. Search for a place above to add one.",
+  "dashboard.now": "Now",
+  "dashboard.severity": "Severity",
+  "dashboard.refresh": "Refresh",
+  "dashboard.export": "Export JSON",
+
+  "compare.prompt": "Pick a location to compare the UV providers.",
+  "compare.notConfigured": "not configured",
+  "compare.loading": "loading...",
+  "compare.samples": "{count} samples",
+  "compare.noOverlap":
+    "The providers returned no overlapping forecast to compare.",
+  "compare.overlay": "Forecast overlay",
+  "compare.overlayLabel": "UV forecast of each provider over time",
+  "compare.disagreement": "Disagreement",
+  "compare.comparedWith": "Compared with",
+  "compare.needTwo": "At least two providers are needed to compare.",
+  "compare.meanDiff": "Mean abs. diff.",
+  "compare.maxDiff": "Max diff.",
+  "compare.hourByHour": "Hour by hour",
+  "compare.time": "Time",
+  "compare.sameTime": "same time",
+  "compare.later": "{span} later",
+  "compare.earlier": "{span} earlier",
+
+  "history.loadFailed": "Failed to load history",
+  "history.empty.title": "Nothing Recorded",
+  "history.empty.message":
+    "Set UV_HISTORY_LOCATIONS on the server to start recording UV history.",
+  "history.range": "Range",
+  "history.lastDays": "Last {days} days",
+  "history.daysRecorded": "Days recorded",
+  "history.levelDays": "\"{level}\" days",
+  "history.highest": "Highest",
+  "history.highestOn": "Highest, {date}",
+  "history.dailyPeaks": "Daily peaks",
+  "history.dailyPeaksLabel": "Daily UV peaks",
+  "history.peakUv": "Peak UV",
+  "history.weeklyPeaks": "Weekly peaks",
+  "history.monthlyPeaks": "Monthly peaks",
+  "history.accuracy": "Forecast accuracy",
+  "history.accuracyHint":
+    "Forecasts compared with the reading later recorded for the same time. Bias above zero means forecasts ran high.",
+  "history.notEnough": "Not enough history to compare yet.",
+  "history.leadTime": "Lead time",
+  "history.meanError": "Mean error",
+  "history.bias": "Bias",
+  "history.pairs": "Pairs",
+
+  "chart.uvIndex": "UV index",
+  "chart.now": "Now",
+  "chart.instructions": "Use the arrow keys to move between times.",
+
+  "picker.search": "Search for a place",
+  "picker.myLocation": "My location",
+  "picker.showCoordinates": "Enter coordinates",
+  "picker.hideCoordinates": "Hide coordinates",
+  "picker.latitude": "Latitude",
+  "picker.longitude": "Longitude",
+  "picker.go": "Go",
+
+  "skin.type": "Skin type",
+  "skin.notSet": "Not set",
+  "skin.sunscreen": "Sunscreen",
+  "skin.none": "None",
+  "skinType.I": "Always burns, never tans",
+  "skinType.II": "Usually burns, tans minimally",
+  "skinType.III": "Sometimes burns, tans gradually",
+  "skinType.IV": "Rarely burns, tans easily",
+  "skinType.V": "Very rarely burns, tans darkly",
+  "skinType.VI": "Never burns",
+};
+
+export type MessageKey = keyof typeof en;
+
+// Every locale must translate every message
+const sv: Record<MessageKey, string> = {
+  "app.title": "UV-index",
+  "app.tagline": "Aktuellt UV-index för din plats",
+  "nav.dashboard": "Jämför sparade platser →",
+  "nav.alerts": "UV-varningar →",
+  "nav.history": "Historik →",
+  "nav.compare": "Jämför leverantörer →",
+  "nav.planner": "Planera en aktivitet →",
+  "language.label": "Språk",
+  "palette.label": "Färger",
+  "palette.who": "WHO:s färger",
+  "palette.colorblind": "Anpassade för färgblindhet",
+
+  "severity.Low": "Låg",
+  "severity.Moderate": "Måttlig",
+  "severity.High": "Hög",
+  "severity.Very High": "Mycket hög",
+  "severity.Extreme": "Extrem",
+  "advice.Low": "Låg risk från UV-strålningen. Inget skydd behövs.",
+  "advice.Moderate": "Måttlig risk från UV-strålningen. Använd solskydd.",
+  "advice.High":
+    "Hög risk från UV-strålningen. Använd solskydd och skyddande kläder.",
+  "advice.Very High":
+    "Mycket hög risk från UV-strålningen. Var extra försiktig.",
+  "advice.Extreme":
+    "Extrem risk från UV-strålningen. Undvik att vara ute mitt på dagen.",
+  "action.none": "Inget skydd behövs",
+  "action.shade": "Sök skugga mitt på dagen",
+  "action.clothing": "Ha på dig en tröja",
+  "action.hat": "Använd hatt",
+  "action.sunglasses": "Använd solglasögon",
+  "action.sunscreen": "Smörj in dig med solskydd",
+  "action.avoid-midday": "Undvik att vara ute mitt på dagen",
+
+  "error.auth.title": "Åtkomst nekad",
+  "error.auth.message":
+    "UV-leverantören godkände inte våra inloggningsuppgifter. Kontakta administratören.",
+  "error.rate-limited.title": "För många förfrågningar",
+  "error.rate-limited.message":
+    "UV-leverantören begränsar antalet förfrågningar. Försök igen om några minuter.",
+  "error.network.title": "Anslutningsproblem",
+  "error.network.message":
+    "Det gick inte att nå UV-tjänsten. Kontrollera din anslutning och försök igen.",
+  "error.malformed.title": "Oläsliga data",
+  "error.malformed.message":
+    "UV-leverantören skickade data som inte gick att läsa, så inget värde visas hellre än ett som kan vara fel.",
+  "error.out-of-range.title": "Orimligt värde",
+  "error.out-of-range.message":
+    "UV-leverantören rapporterade ett omöjligt värde, så inget värde visas hellre än ett som kan vara fel.",
+  "error.geolocation-denied.title": "Platsåtkomst nekad",
+  "error.geolocation-denied.message":
+    "Sök efter en plats eller ange koordinater för att se UV-index.",
+  "error.geolocation-unavailable.title": "Platsen okänd",
+  "error.geolocation-unavailable.message":
+    "Din plats kunde inte hittas. Sök efter en plats eller ange koordinater i stället.",
+  "error.not-configured.title": "Ingen leverantör tillgänglig",
+  "error.not-configured.message":
+    "Ingen UV-leverantör är konfigurerad på servern.",
+  "error.title": "Fel",
+
+  "display.loading": "Hämtar UV-index...",
+  "display.noData.title": "Inga data tillgängliga",
+  "display.noData.message": "Det gick inte att hämta UV-index just nu.",
+  "display.current": "Aktuellt UV-index",
+  "display.updatedNow": "Uppdaterad nyss",
+  "display.updatedAgo": "Uppdaterad för {minutes} min sedan",
+  "display.stale": "inaktuell",
+  "display.offline": "Offline – data från {time}",
+  "display.estimate":
+    "Aktuella UV-data saknas. Visar en uppskattning för klar himmel utifrån solens position; verkligt UV-index kan vara lägre när det är molnigt.",
+  "display.today": "Idag",
+  "display.maxUv": "Max-UV {day}",
+  "display.maxTime": "Tid för max",
+  "display.hoursAbove": "{hours} h {level}+",
+  "display.noHoursAbove": "Inga timmar över {level}",
+  "display.protectionNeeded": "Solskydd behövs",
+  "display.noProtection":
+    "Inget solskydd behövs (UV-index stannar under {threshold})",
+  "display.hourlyForecast": "UV-prognos per timme",
+  "display.sunburnRisk": "Din risk för solbränna",
+  "display.timeToSunburn": "Tid till solbränna från {time}:",
+  "display.noSunburn": "Ingen solbränna väntas det närmaste dygnet.",
+  "display.location": "Plats:",
+  "display.downloadCsv": "Ladda ner CSV",
+  "display.subscribe": "Prenumerera i kalendern",
+  "display.subscribeHint":
+    "Lägger in perioderna med högt UV-index i din kalender och håller dem uppdaterade",
+  "display.poweredBy": "Data från {source}",
+  "display.fallbackUsed": "Reserv användes:",
+
+  "adjust.surface": "Omgivning",
+  "adjust.reported": "Rapporterat {value}",
+  "adjust.adjusted": "Justerat",
+  "adjust.raw": "Rapporterat",
+  "adjust.cloud": "Molnighet {cover} %: ingår i rapporterat värde",
+  "adjust.elevation":
+    "Höjd {altitude} m (modellerat på {elevation} m): ×{factor}",
+  "adjust.reflection": "Reflektion ({surface}): ×{factor}",
+
+  "surface.none": "Ingen reflektion",
+  "surface.grass": "Gräs",
+  "surface.water": "Vatten",
+  "surface.sand": "Sand",
+  "surface.snow": "Snö",
+
+  "badge.title": "UV-index",
+  "badge.unavailable": "saknas",
+
+  "embed.openApp": "Öppna UV-index",
+
+  "planner.prompt": "Välj en plats att planera för.",
+  "planner.duration": "Längd",
+  "planner.maxUv": "Högsta godtagbara UV",
+  "planner.noLimit": "Ingen gräns",
+  "planner.tomorrow": "Imorgon",
+  "planner.best": "Bästa {duration}:",
+  "planner.slot": "{start}–{end}, dos {dose} SED, max-UV {peak}",
+  "planner.noSlot": "Ingen tid håller sig inom dina gränser.",
+  "planner.loading": "Hämtar prognosen...",
+  "planner.sedHint":
+    "1 SED (standarderytemdos) är 100 J/m² solbrännande UV. Ljus hud börjar brännas vid cirka 2–3 SED; tider som skulle bränna din hudtyp visas inte.",
+  "duration.minutes": "{minutes} min",
+  "duration.hours": "{hours} h {minutes} min",
+  "duration.wholeHours": "{hours} h",
+
+  "page.back": "← Tillbaka till UV-index",
+  "page.alerts.title": "UV-varningar",
+  "page.alerts.description":
+    "Få en avisering innan UV-indexet blir högt, eller varje morgon",
+  "page.compare.title": "Jämför leverantörer",
+  "page.compare.description":
+    "Se hur mycket UV-leverantörerna skiljer sig åt för samma plats",
+  "page.dashboard.title": "Sparade platser",
+  "page.dashboard.description": "Jämför UV-indexet mellan dina sparade platser",
+  "page.history.title": "UV-historik",
+  "page.history.description":
+    "Uppmätta UV-toppar och hur väl prognoserna höll",
+  "page.planner.title": "Aktivitetsplanerare",
+  "page.planner.description":
+    "Hitta tiden i dag eller i morgon som ger minst UV",
+
+  "common.loading": "Hämtar...",
+  "common.noData": "Inga data",
+  "common.remove": "Ta bort",
+  "common.removeNamed": "Ta bort {name}",
+  "common.location": "Plats",
+  "common.provider": "Leverantör",
+  "common.todaysPeak": "Dagens topp",
+  "common.noReadings": "Inga mätningar än.",
+
+  "location.near": "Nära {place}",
+  "coordinates.latitudeNotNumber": "Latituden måste vara ett tal",
+  "coordinates.longitudeNotNumber": "Longituden måste vara ett tal",
+  "coordinates.latitudeRange": "Latituden måste vara mellan -90 och 90",
+  "coordinates.longitudeRange": "Longituden måste vara mellan -180 och 180",
+
+  "alerts.unsupported": "Den här webbläsaren stöder inte aviseringar.",
+  "alerts.blocked":
+    "Aviseringar är blockerade. Tillåt dem i webbläsarens inställningar för att få varningar.",
+  "alerts.allow": "Tillåt aviseringar för att få UV-varningar.",
+  "alerts.enable": "Aktivera",
+  "alerts.namePlaceholder": "Namn, t.ex. Hemma",
+  "alerts.name": "Varningens namn",
+  "alerts.type": "Typ av varning",
+  "alerts.threshold": "UV-gräns",
+  "alerts.thresholdAlert": "Varning vid UV-gräns",
+  "alerts.dailySummary": "Daglig sammanfattning",
+  "alerts.add": "Lägg till varning",
+  "alerts.empty":
+    "Inga varningar än. Sök efter en plats ovan för att lägga till en.",
+  "alerts.enabled": "Aktiv",
+  "alerts.atOrAbove": "UV på eller över",
+  "alerts.leadTime": "Varna i förväg",
+  "alerts.sendAt": "Skicka kl.",
+  "alerts.quietFrom": "Tyst från",
+  "alerts.quietUntil": "Tyst till",
+  "alerts.checkHint":
+    "Varningarna kontrolleras var 15:e minut medan appen är öppen i en flik.",
+  "alerts.notify.title": "UV-varning: {name}",
+  "alerts.notify.above":
+    "UV-indexet är nu {threshold} eller högre och når som mest {peak}.",
+  "alerts.notify.reaches":
+    "UV-indexet når {threshold} kl. {time} och som mest {peak}.",
+  "alerts.notify.summaryTitle": "Dagens UV: {name}",
+  "alerts.notify.summary": "UV-indexet når som mest {peak} runt kl. {time}.",
+
+  "dashboard.namePlaceholder": "Namn, t.ex. Kontoret",
+  "dashboard.name": "Platsens namn",
+  "dashboard.save": "Spara plats",
+  "dashboard.empty":
+    "Inga sparade platser än. Sök efter en plats ovan för att lägga till en.",
+  "dashboard.now": "Nu",
+  "dashboard.severity": "Nivå",
+  "dashboard.refresh": "Uppdatera",
+  "dashboard.export": "Exportera JSON",
+
+  "compare.prompt": "Välj en plats för att jämföra UV-leverantörerna.",
+  "compare.notConfigured": "inte konfigurerad",
+  "compare.loading": "hämtar...",
+  "compare.samples": "{count} värden",
+  "compare.noOverlap":
+    "Leverantörernas prognoser överlappar inte, så de går inte att jämföra.",
+  "compare.overlay": "Prognoserna tillsammans",
+  "compare.overlayLabel": "Varje leverantörs UV-prognos över tid",
+  "compare.disagreement": "Skillnader",
+  "compare.comparedWith": "Jämfört med",
+  "compare.needTwo": "Minst två leverantörer behövs för en jämförelse.",
+  "compare.meanDiff": "Medelavvikelse",
+  "compare.maxDiff": "Största avvikelse",
+  "compare.hourByHour": "Timme för timme",
+  "compare.time": "Tid",
+  "compare.sameTime": "samtidigt",
+  "compare.later": "{span} senare",
+  "compare.earlier": "{span} tidigare",
+
+  "history.loadFailed": "Kunde inte hämta historiken",
+  "history.empty.title": "Inget registrerat",
+  "history.empty.message":
+    "Ange UV_HISTORY_LOCATIONS på servern för att börja spara UV-historik.",
+  "history.range": "Period",
+  "history.lastDays": "Senaste {days} dagarna",
+  "history.daysRecorded": "Registrerade dagar",
+  "history.levelDays": "Dagar med \"{level}\"",
+  "history.highest": "Högst",
+  "history.highestOn": "Högst, {date}",
+  "history.dailyPeaks": "Dagliga toppar",
+  "history.dailyPeaksLabel": "Dagliga UV-toppar",
+  "history.peakUv": "Högsta UV",
+  "history.weeklyPeaks": "Veckotoppar",
+  "history.monthlyPeaks": "Månadstoppar",
+  "history.accuracy": "Prognosernas träffsäkerhet",
+  "history.accuracyHint":
+    "Prognoserna jämförda med värdet som senare registrerades för samma tid. En avvikelse över noll betyder att prognoserna låg för högt.",
+  "history.notEnough": "Det finns inte tillräckligt med historik att jämföra än.",
+  "history.leadTime": "Framförhållning",
+  "history.meanError": "Medelfel",
+  "history.bias": "Avvikelse",
+  "history.pairs": "Par",
+
+  "chart.uvIndex": "UV-index",
+  "chart.now": "Nu",
+  "chart.instructions": "Använd piltangenterna för att flytta mellan tider.",
+
+  "picker.search": "Sök efter en plats",
+  "picker.myLocation": "Min plats",
+  "picker.showCoordinates": "Ange koordinater",
+  "picker.hideCoordinates": "Dölj koordinater",
+  "picker.latitude": "Latitud",
+  "picker.longitude": "Longitud",
+  "picker.go": "Visa",
+
+  "skin.type": "Hudtyp",
+  "skin.notSet": "Inte vald",
+  "skin.sunscreen": "Solskydd",
+  "skin.none": "Inget",
+  "skinType.I": "Bränns alltid, blir aldrig brun",
+  "skinType.II": "Bränns oftast, blir knappt brun",
+  "skinType.III": "Bränns ibland, blir gradvis brun",
+  "skinType.IV": "Bränns sällan, blir lätt brun",
+  "skinType.V": "Bränns mycket sällan, blir mörkbrun",
+  "skinType.VI": "Bränns aldrig",
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en, sv };
+
+/**
+ * Look up a message, filling in its {placeholders}
+ * @param locale Language to translate into
+ * @param key Message to look up
+ * @param params Values for the placeholders in the message
+ * @returns The translated message
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string {
+  return MESSAGES[locale][key].replace(/\{(\w+)\}/g, (placeholder, name) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Check whether a value names a supported locale
+ * @param value Value to check
+ */
+export function isLocale(value: unknown): value is Locale {
+  return SUPPORTED_LOCALES.includes(value as Locale);
+}
+
+/**
+ * Pick the first supported locale from the user's preferred languages
+ * @param languages Preferred language tags, e.g. navigator.languages
+ * @returns The matching locale, or the default if none is supported
+ */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const base = language.toLowerCase().split("-")[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Load the saved language, falling back to the browser's languages
+ */
+export function loadLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage may be unavailable, e.g. in private browsing
+  }
+  return detectLocale(navigator.languages ?? [navigator.language]);
+}
+
+/**
+ * Save the chosen language
+ * @param locale Language to remember
+ */
+export function saveLocale(locale: Locale): void {
+  localStorage.setItem(STORAGE_KEY, locale);
+}
+
+/**
+ * Get the language tag used to format numbers and dates for a locale
+ * @param locale The locale
+ */
+export function getLocaleTag(locale: Locale): string {
+  return LOCALE_TAGS[locale];
+}
+
+/**
+ * Format a time of day, as the clock reads in the given time zone
+ * @param time ISO timestamp or milliseconds since the epoch
+ * @param locale Language to format in
+ * @param timeZone IANA time zone; the viewer's own if not given
+ */
+export function formatTime(
+  time: string | number,
+  locale: Locale,
+  timeZone?: string
+): string {
+  return new Date(time).toLocaleTimeString(LOCALE_TAGS[locale], {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+  });
+}
+
+/**
+ * Format a calendar date as a short weekday and day of the month
+ * @param date Local date as YYYY-MM-DD
+ * @param locale Language to format in
+ */
+export function formatDay(date: string, locale: Locale): string {
+  // The date is already local to the location, so format it as UTC noon
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString(LOCALE_TAGS[locale], {
+    weekday: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Format a calendar date as a short month and day of the month
+ * @param date Local date as YYYY-MM-DD
+ * @param locale Language to format in
+ */
+export function formatDate(date: string, locale: Locale): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString(LOCALE_TAGS[locale], {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
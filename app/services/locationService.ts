@@ -0,0 +1,209 @@
+// Location Service
+// Browser geolocation, place search, reverse lookup and manual coordinate entry
+
+import { DEFAULT_LOCALE, Locale, translate } from "./i18n";
+import { PLACES, Place } from "./places";
+import { LocationData } from "./types";
+import { UVServiceError } from "./uvErrors";
+
+export type { Place } from "./places";
+
+// Backend that turns place names into coordinates and back
+export interface Geocoder {
+  search(query: string, limit: number): Promise<Place[]>;
+  reverse(location: LocationData): Promise<Place | null>;
+}
+
+// Places further away than this are not used to name a location
+const REVERSE_LOOKUP_MAX_KM = 50;
+
+// Fold case and diacritics so "malmo" finds "Malmö"
+const normalize = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+
+/**
+ * Great-circle distance between two locations
+ * @returns The distance in kilometres
+ */
+export function getDistanceKm(a: LocationData, b: LocationData): number {
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLng = (b.lng - a.lng) * rad;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Create a geocoder that searches a bundled list of places
+ * @param places The places to search
+ */
+export function createOfflineGeocoder(places: Place[] = PLACES): Geocoder {
+  return {
+    async search(query, limit) {
+      const needle = normalize(query);
+      if (!needle) return [];
+
+      // Names starting with the query rank above names merely containing it
+      return places
+        .map((place) => {
+          const name = normalize(place.name);
+          const full = normalize(`${place.name}, ${place.country}`);
+          const rank = name.startsWith(needle)
+            ? 0
+            : full.includes(needle)
+            ? 1
+            : -1;
+          return { place, rank };
+        })
+        .filter(({ rank }) => rank >= 0)
+        .sort((a, b) => a.rank - b.rank || a.place.name.localeCompare(b.place.name))
+        .slice(0, limit)
+        .map(({ place }) => place);
+    },
+    async reverse(location) {
+      let nearest: Place | null = null;
+      let nearestKm = REVERSE_LOOKUP_MAX_KM;
+
+      for (const place of places) {
+        const km = getDistanceKm(location, place);
+        if (km <= nearestKm) {
+          nearest = place;
+          nearestKm = km;
+        }
+      }
+
+      return nearest;
+    },
+  };
+}
+
+let geocoder: Geocoder = createOfflineGeocoder();
+
+/**
+ * Replace the geocoder backend, e.g. with an online service
+ * @param backend The geocoder to use for searches and reverse lookups
+ */
+export function setGeocoder(backend: Geocoder): void {
+  geocoder = backend;
+}
+
+/**
+ * Format a place as a display address
+ */
+export function formatPlace(place: Place): string {
+  return `${place.name}, ${place.country}`;
+}
+
+/**
+ * Convert a place into location data
+ */
+export function placeToLocation(place: Place): LocationData {
+  return {
+    lat: place.lat,
+    lng: place.lng,
+    altitude: place.altitude,
+    address: formatPlace(place),
+  };
+}
+
+/**
+ * Search for places by name
+ * @param query Part of a place or country name
+ * @param limit Maximum number of results
+ * @returns Matching places, best matches first
+ */
+export function searchPlaces(query: string, limit = 8): Promise<Place[]> {
+  return geocoder.search(query, limit);
+}
+
+/**
+ * Fill in the address of a location from the nearest known place
+ * @param location Location data with latitude and longitude
+ * @param locale Language of the address
+ * @returns The location with its address filled in. The place's altitude is
+ * left out, as it may be far from the location's own
+ */
+export async function reverseLookup(
+  location: LocationData,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<LocationData> {
+  const place = await geocoder.reverse(location);
+  if (!place) return location;
+
+  return {
+    ...location,
+    address:
+      location.address ??
+      translate(locale, "location.near", { place: formatPlace(place) }),
+  };
+}
+
+/**
+ * Validate manually entered coordinates
+ * @param lat Latitude as entered
+ * @param lng Longitude as entered
+ * @param locale Language of the error message
+ * @returns The location, or an error message describing what is wrong
+ */
+export function parseCoordinates(
+  lat: string,
+  lng: string,
+  locale: Locale = DEFAULT_LOCALE
+): { location: LocationData } | { error: string } {
+  const latitude = Number(lat.trim().replace(",", "."));
+  const longitude = Number(lng.trim().replace(",", "."));
+
+  if (lat.trim() === "" || !Number.isFinite(latitude)) {
+    return { error: translate(locale, "coordinates.latitudeNotNumber") };
+  }
+  if (lng.trim() === "" || !Number.isFinite(longitude)) {
+    return { error: translate(locale, "coordinates.longitudeNotNumber") };
+  }
+  if (Math.abs(latitude) > 90) {
+    return { error: translate(locale, "coordinates.latitudeRange") };
+  }
+  if (Math.abs(longitude) > 180) {
+    return { error: translate(locale, "coordinates.longitudeRange") };
+  }
+
+  return { location: { lat: latitude, lng: longitude } };
+}
+
+/**
+ * Get user's current geolocation
+ * @returns Promise resolving to the user's location, rejecting with a
+ * GeolocationPositionError or a UVServiceError
+ */
+export function getUserLocation(): Promise<LocationData> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(
+        new UVServiceError({
+          kind: "geolocation-unavailable",
+          message: "Geolocation is not supported by your browser",
+        })
+      );
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        resolve({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          altitude: position.coords.altitude ?? undefined,
+        });
+      },
+      (error) => {
+        reject(error);
+      }
+    );
+  });
+}
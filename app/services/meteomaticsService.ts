@@ -1,180 +1,248 @@
 // Meteomatics API Service
 // This service connects to the Meteomatics API to fetch UV index data
 
-export interface MeteomaticsUVData {
-  uvIndex: number;
-  timestamp: string;
-  maxUvIndex?: number;
-  maxUvTime?: string;
-  hourlyForecast?: {
-    time: string;
-    uvIndex: number;
+import {
+  UpstreamClient,
+  createTokenBucket,
+  fetchWithRetry,
+} from "./httpClient";
+import {
+  ForecastOptions,
+  HourlyUVData,
+  LocationData,
+  UVData,
+  UVProvider,
+  findMaxUV,
+} from "./types";
+import {
+  UVServiceError,
+  assertTimestamp,
+  assertUVIndex,
+  errorForStatus,
+  malformedPayload,
+} from "./uvErrors";
+import { DEFAULT_FORECAST_OPTIONS } from "./uvForecast";
+
+export type { LocationData } from "./types";
+export { getUserLocation } from "./locationService";
+
+// Kept as an alias of the normalized shape for existing callers
+export type MeteomaticsUVData = UVData;
+
+// Shape of the Meteomatics JSON response, with one data entry per requested
+// parameter. Everything is optional because the payload is validated before use
+interface MeteomaticsApiResponse {
+  data?: {
+    parameter?: string;
+    coordinates?: {
+      dates?: { date?: unknown; value?: unknown }[];
+    }[];
   }[];
-  source: string;
 }
 
-export interface LocationData {
-  lat: number;
-  lng: number;
-  address?: string;
-}
+const UV_PARAMETER = "uv:idx";
+// Requested alongside the UV index where the account's plan includes them:
+// cloud cover for context and the model's terrain height, which the
+// adjustments compare against the user's own altitude
+const CLOUD_COVER_PARAMETER = "effective_cloud_cover:p";
+const ELEVATION_PARAMETER = "elevation:m";
+const EXTRA_PARAMETERS = [CLOUD_COVER_PARAMETER, ELEVATION_PARAMETER];
+
+// Statuses Meteomatics answers with when a parameter is not in the plan
+const PARAMETER_UNAVAILABLE_STATUSES = [400, 403];
 
-// API credentials from environment variables
-const USERNAME = process.env.NEXT_PUBLIC_METEOMATICS_USERNAME || "";
-const PASSWORD = process.env.NEXT_PUBLIC_METEOMATICS_PASSWORD || "";
+// API credentials from server-only environment variables
+const USERNAME = process.env.METEOMATICS_USERNAME || "";
+const PASSWORD = process.env.METEOMATICS_PASSWORD || "";
 const BASE_URL = "https://api.meteomatics.com";
 
+// Stay under the plan's request limit; METEOMATICS_REQUESTS_PER_MINUTE sets it
+const REQUESTS_PER_MINUTE =
+  Number(process.env.METEOMATICS_REQUESTS_PER_MINUTE) || 30;
+const rateLimiter = createTokenBucket({
+  capacity: Math.max(1, Math.floor(REQUESTS_PER_MINUTE / 6)),
+  refillPerSecond: REQUESTS_PER_MINUTE / 60,
+});
+
+// Format a date as YYYY-MM-DDTHH:MM:SSZ for the API
+const formatApiDate = (date: Date) => date.toISOString().split(".")[0] + "Z";
+
+// Find the date/value series of one parameter; a response without parameter
+// names holds the UV index alone
+const findSeries = (response: unknown, parameter: string) => {
+  const data = (response as MeteomaticsApiResponse | null)?.data;
+  const entry =
+    data?.find((candidate) => candidate?.parameter === parameter) ??
+    (parameter === UV_PARAMETER && !data?.some((item) => item?.parameter)
+      ? data?.[0]
+      : undefined);
+  return entry?.coordinates?.[0]?.dates;
+};
+
+// Read a numeric value, or undefined if it is missing or not a number
+const optionalNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
 /**
- * Get UV Index data from the Meteomatics API
+ * Validate a Meteomatics response and extract its date/value series
+ * Throws rather than defaulting, since a made-up 0 would read as "Low".
+ * Cloud cover is attached to the samples when the response includes it
  */
-export async function getMeteomaticsUVIndex(
-  location: LocationData
-): Promise<MeteomaticsUVData | null> {
-  try {
-    // Check if credentials are available
-    if (!USERNAME || !PASSWORD) {
-      console.error(
-        "Meteomatics credentials not found in environment variables"
-      );
-      return null;
-    }
-
-    // Get current date and format it for the API
-    const now = new Date();
-    const formattedDate = now.toISOString().split(".")[0] + "Z"; // Format: YYYY-MM-DDTHH:MM:SSZ
-
-    // Format the location
-    const locationString = `${location.lat},${location.lng}`;
-
-    // Build the URL for current UV index
-    const currentUvUrl = `${BASE_URL}/${formattedDate}/uv:idx/${locationString}/json`;
-
-    // Build the URL for hourly UV forecast for the next 24 hours
-    const startTime = now.toISOString().split(".")[0] + "Z";
-    const endTime =
-      new Date(now.getTime() + 24 * 60 * 60 * 1000)
-        .toISOString()
-        .split(".")[0] + "Z";
-    const forecastUrl = `${BASE_URL}/${startTime}--${endTime}:PT1H/uv:idx/${locationString}/json`;
-
-    // Create headers with basic authentication
-    const headers = new Headers();
-    headers.set("Authorization", "Basic " + btoa(`${USERNAME}:${PASSWORD}`));
-
-    // Fetch current UV index
-    const currentResponse = await fetch(currentUvUrl, {
-      headers,
-      cache: "no-store",
-    });
+export function parseMeteomaticsForecast(response: unknown): HourlyUVData[] {
+  const dates = findSeries(response, UV_PARAMETER);
+
+  if (!Array.isArray(dates)) {
+    throw malformedPayload(
+      "meteomatics",
+      "missing data[0].coordinates[0].dates"
+    );
+  }
+
+  if (dates.length === 0) {
+    throw malformedPayload("meteomatics", "forecast contains no dates");
+  }
+
+  const cloudCover = findSeries(response, CLOUD_COVER_PARAMETER);
+
+  return dates.map((item, i) => {
+    const sample: HourlyUVData = {
+      time: assertTimestamp(item?.date, "meteomatics"),
+      uvIndex: assertUVIndex(item?.value, "meteomatics"),
+    };
+    const cover = optionalNumber(cloudCover?.[i]?.value);
+    if (cover !== undefined) sample.cloudCover = cover;
+    return sample;
+  });
+}
+
+/**
+ * Extract the model's terrain height from a Meteomatics response
+ * @returns Elevation in metres, or undefined if the response has none
+ */
+export function parseMeteomaticsElevation(
+  response: unknown
+): number | undefined {
+  return optionalNumber(findSeries(response, ELEVATION_PARAMETER)?.[0]?.value);
+}
 
-    if (!currentResponse.ok) {
-      throw new Error(`Error fetching UV index: ${currentResponse.status}`);
-    }
+/**
+ * Whether Meteomatics credentials are available
+ */
+export function hasMeteomaticsCredentials(): boolean {
+  return Boolean(USERNAME && PASSWORD);
+}
 
-    const currentData = await currentResponse.json();
+/**
+ * Fetch UV Index data from the Meteomatics API, throwing on failure
+ * @param location Location data with latitude and longitude
+ * @param options Forecast horizon and interval
+ * @param client Base URL, clock and request settings, replaced in tests
+ */
+export async function fetchMeteomaticsUVData(
+  location: LocationData,
+  options: ForecastOptions = DEFAULT_FORECAST_OPTIONS,
+  client: UpstreamClient = {}
+): Promise<MeteomaticsUVData> {
+  // Check if credentials are available
+  if (!hasMeteomaticsCredentials()) {
+    throw new UVServiceError({
+      kind: "not-configured",
+      message: "Meteomatics credentials not found in environment variables",
+      provider: "meteomatics",
+    });
+  }
 
-    // Fetch forecast data
-    const forecastResponse = await fetch(forecastUrl, {
+  // Get current date and format it for the API
+  const now = new Date(client.now?.() ?? Date.now());
+  const formattedDate = formatApiDate(now);
+
+  // Format the location
+  const locationString = `${location.lat},${location.lng}`;
+
+  // Build the URL for the UV forecast over the requested horizon. The series
+  // starts at the current time, so its first sample doubles as the current
+  // UV index and a single request covers both
+  const endTime = formatApiDate(
+    new Date(now.getTime() + options.days * 24 * 60 * 60 * 1000)
+  );
+  const interval = `PT${options.intervalMinutes}M`;
+  const baseUrl = client.baseUrl ?? BASE_URL;
+  const forecastUrl = (parameters: string[]) =>
+    `${baseUrl}/${formattedDate}--${endTime}:${interval}/${parameters.join(
+      ","
+    )}/${locationString}/json`;
+
+  // Create headers with basic authentication
+  const headers = new Headers();
+  headers.set("Authorization", "Basic " + btoa(`${USERNAME}:${PASSWORD}`));
+
+  // Fetch forecast data, retrying with the UV index alone if the plan does
+  // not cover the extra parameters. The request timer runs until a body is
+  // read or cancelled, so the bodies of refused requests are cancelled
+  const request = (parameters: string[]) =>
+    fetchWithRetry(forecastUrl(parameters), {
       headers,
       cache: "no-store",
+      rateLimiter,
+      provider: "meteomatics",
+      ...client.request,
     });
+  let forecastResponse = await request([UV_PARAMETER, ...EXTRA_PARAMETERS]);
+  if (PARAMETER_UNAVAILABLE_STATUSES.includes(forecastResponse.status)) {
+    await forecastResponse.body?.cancel();
+    forecastResponse = await request([UV_PARAMETER]);
+  }
 
-    let forecastData;
-    let hourlyForecast;
-
-    if (forecastResponse.ok) {
-      forecastData = await forecastResponse.json();
-
-      // Process forecast data if available
-      if (
-        forecastData &&
-        forecastData.data &&
-        forecastData.data[0] &&
-        forecastData.data[0].coordinates &&
-        forecastData.data[0].coordinates[0] &&
-        forecastData.data[0].coordinates[0].dates
-      ) {
-        hourlyForecast = forecastData.data[0].coordinates[0].dates.map(
-          (item: any) => ({
-            time: item.date,
-            uvIndex: item.value,
-          })
-        );
-
-        // Find max UV index from the forecast
-        if (hourlyForecast.length > 0) {
-          const maxUvItem = hourlyForecast.reduce((prev: any, current: any) =>
-            prev.uvIndex > current.uvIndex ? prev : current
-          );
-
-          const maxUvIndex = maxUvItem.uvIndex;
-          const maxUvTime = maxUvItem.time;
-        }
-      }
-    }
-
-    // Extract current UV index
-    let currentUvIndex = 0;
-    let timestamp = formattedDate;
-
-    if (
-      currentData &&
-      currentData.data &&
-      currentData.data[0] &&
-      currentData.data[0].coordinates &&
-      currentData.data[0].coordinates[0] &&
-      currentData.data[0].coordinates[0].dates &&
-      currentData.data[0].coordinates[0].dates[0]
-    ) {
-      currentUvIndex = currentData.data[0].coordinates[0].dates[0].value;
-      timestamp = currentData.data[0].coordinates[0].dates[0].date;
-    }
-
-    // Find max UV value and its time from the hourly forecast
-    let maxUvIndex;
-    let maxUvTime;
-
-    if (hourlyForecast && hourlyForecast.length > 0) {
-      const maxUvEntry = hourlyForecast.reduce((prev, current) =>
-        prev.uvIndex > current.uvIndex ? prev : current
-      );
-
-      maxUvIndex = maxUvEntry.uvIndex;
-      maxUvTime = maxUvEntry.time;
-    }
-
-    return {
-      uvIndex: currentUvIndex,
-      timestamp: timestamp,
-      maxUvIndex: maxUvIndex,
-      maxUvTime: maxUvTime,
-      hourlyForecast: hourlyForecast,
-      source: "Meteomatics Professional Weather Data",
-    };
+  if (!forecastResponse.ok) {
+    await forecastResponse.body?.cancel();
+    throw errorForStatus(forecastResponse.status, "meteomatics");
+  }
+
+  const body = await forecastResponse.json();
+  const hourlyForecast = parseMeteomaticsForecast(body);
+  const elevation = parseMeteomaticsElevation(body);
+
+  // Extract current UV index
+  const currentUvIndex = hourlyForecast[0].uvIndex;
+  const timestamp = hourlyForecast[0].time;
+
+  // Find max UV value and its time from the hourly forecast
+  const { maxUvIndex, maxUvTime } = findMaxUV(hourlyForecast);
+
+  return {
+    uvIndex: currentUvIndex,
+    timestamp: timestamp,
+    maxUvIndex: maxUvIndex,
+    maxUvTime: maxUvTime,
+    hourlyForecast: hourlyForecast,
+    source: "Meteomatics Professional Weather Data",
+    provider: "meteomatics",
+    latitude: location.lat,
+    longitude: location.lng,
+    ...(elevation !== undefined && { elevation }),
+  };
+}
+
+/**
+ * Get UV Index data from the Meteomatics API
+ */
+export async function getMeteomaticsUVIndex(
+  location: LocationData
+): Promise<MeteomaticsUVData | null> {
+  try {
+    return await fetchMeteomaticsUVData(location);
   } catch (error) {
     console.error("Failed to fetch Meteomatics UV index data:", error);
     return null;
   }
 }
 
-// Get user's current geolocation
-export function getUserLocation(): Promise<LocationData> {
-  return new Promise((resolve, reject) => {
-    if (!navigator.geolocation) {
-      reject(new Error("Geolocation is not supported by your browser"));
-      return;
-    }
-
-    navigator.geolocation.getCurrentPosition(
-      (position) => {
-        resolve({
-          lat: position.coords.latitude,
-          lng: position.coords.longitude,
-        });
-      },
-      (error) => {
-        reject(error);
-      }
-    );
-  });
-}
+// Provider registration for the Meteomatics API
+export const meteomaticsProvider: UVProvider = {
+  id: "meteomatics",
+  name: "Meteomatics",
+  // Data is hourly, so there is little point refreshing more often
+  cacheTtlMs: 15 * 60 * 1000,
+  isConfigured: hasMeteomaticsCredentials,
+  fetchUVData: fetchMeteomaticsUVData,
+};
@@ -0,0 +1,69 @@
+// Notifications
+// Delivers alerts through the Notifications API via the service worker, so
+// they show even when the page is in a background tab
+
+import { AlertNotification } from "./alertRules";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+/**
+ * Check whether this browser can show notifications
+ */
+export function isNotificationSupported(): boolean {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+/**
+ * Register the service worker, if supported
+ * @returns The registration, or null if service workers are unavailable
+ */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) {
+    return null;
+  }
+
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    console.error("Service worker registration failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Ask the user for permission to show notifications
+ * @returns The resulting permission
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!isNotificationSupported()) return "denied";
+  if (Notification.permission !== "default") return Notification.permission;
+
+  return Notification.requestPermission();
+}
+
+/**
+ * Show an alert as a notification
+ * Falls back to a page notification when no service worker is active
+ * @param alert The alert to show
+ */
+export async function showAlertNotification(
+  alert: AlertNotification
+): Promise<void> {
+  if (!isNotificationSupported() || Notification.permission !== "granted") {
+    return;
+  }
+
+  const options: NotificationOptions = {
+    body: alert.body,
+    tag: alert.tag,
+    icon: "/favicon.ico",
+    data: { url: "/" },
+  };
+
+  const registration = await registerServiceWorker();
+  if (registration) {
+    await registration.showNotification(alert.title, options);
+  } else {
+    new Notification(alert.title, options);
+  }
+}
@@ -0,0 +1,257 @@
+// OpenAPI Document
+// Generates the OpenAPI 3.1 description of the public v1 API from the same
+// endpoint and parameter specs the routes validate against
+
+import {
+  API_V1_ENDPOINTS,
+  API_VERSION,
+  ApiEndpoint,
+  QueryParamSpec,
+  isApiKeyRequired,
+} from "./publicApi";
+import { UV_SEVERITY_SCALE, UV_SEVERITY_THRESHOLDS } from "./uvSeverity";
+
+type Schema = Record<string, unknown>;
+
+const ATTEMPT_SCHEMA: Schema = {
+  type: "object",
+  required: ["provider", "error"],
+  properties: {
+    provider: { type: "string" },
+    error: { $ref: "#/components/schemas/UVError" },
+  },
+};
+
+// Schemas of the data each endpoint returns, plus the shared envelope parts
+const COMPONENT_SCHEMAS: Record<string, Schema> = {
+  UVError: {
+    type: "object",
+    required: ["kind", "message"],
+    properties: {
+      kind: { type: "string" },
+      message: { type: "string" },
+      provider: { type: "string" },
+      status: { type: "integer" },
+    },
+  },
+  Meta: {
+    type: "object",
+    required: ["provider", "attempts"],
+    properties: {
+      provider: { type: "string", description: "Provider that answered" },
+      attempts: {
+        type: "array",
+        description: "Providers tried before the one that answered",
+        items: ATTEMPT_SCHEMA,
+      },
+    },
+  },
+  Error: {
+    type: "object",
+    required: ["error"],
+    properties: {
+      error: {
+        type: "object",
+        required: ["code", "message"],
+        properties: {
+          code: {
+            type: "string",
+            enum: ["invalid-query", "unauthorized", "no-data"],
+          },
+          message: { type: "string" },
+          attempts: { type: "array", items: ATTEMPT_SCHEMA },
+        },
+      },
+    },
+  },
+  HourlyUV: {
+    type: "object",
+    required: ["time", "uvIndex"],
+    properties: {
+      time: { type: "string", format: "date-time" },
+      uvIndex: { type: "number" },
+      cloudCover: {
+        type: "number",
+        description:
+          "Share of the sky covered by cloud in percent, where the provider reports it",
+      },
+    },
+  },
+  Severity: {
+    type: "object",
+    description: "Category of the reading on the WHO UV index scale",
+    required: ["level", "color", "actions"],
+    properties: {
+      level: {
+        type: "string",
+        enum: UV_SEVERITY_SCALE.map(({ level }) => level),
+      },
+      color: { type: "string", description: "WHO colour as a hex code" },
+      actions: {
+        type: "array",
+        description: "Recommended protective actions",
+        items: {
+          type: "string",
+          enum: Array.from(
+            new Set(UV_SEVERITY_SCALE.flatMap(({ actions }) => actions))
+          ),
+        },
+      },
+    },
+  },
+  CurrentUV: {
+    type: "object",
+    required: [
+      "uvIndex",
+      "timestamp",
+      "latitude",
+      "longitude",
+      "source",
+      "severity",
+    ],
+    properties: {
+      uvIndex: { type: "number" },
+      timestamp: { type: "string", format: "date-time" },
+      latitude: { type: "number" },
+      longitude: { type: "number" },
+      source: { type: "string" },
+      severity: { $ref: "#/components/schemas/Severity" },
+    },
+  },
+  UVForecast: {
+    type: "object",
+    required: ["latitude", "longitude", "source", "intervalMinutes", "hourly"],
+    properties: {
+      latitude: { type: "number" },
+      longitude: { type: "number" },
+      source: { type: "string" },
+      intervalMinutes: { type: "integer" },
+      maxUvIndex: { type: "number", description: "Peak over the whole horizon" },
+      maxUvTime: { type: "string", format: "date-time" },
+      hourly: {
+        type: "array",
+        items: { $ref: "#/components/schemas/HourlyUV" },
+      },
+    },
+  },
+  DailyUV: {
+    type: "object",
+    required: ["latitude", "longitude", "source", "timeZone", "days"],
+    properties: {
+      latitude: { type: "number" },
+      longitude: { type: "number" },
+      source: { type: "string" },
+      timeZone: { type: "string" },
+      days: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["date", "maxUvIndex", "maxUvTime", "hoursAbove"],
+          properties: {
+            date: { type: "string", format: "date" },
+            maxUvIndex: { type: "number" },
+            maxUvTime: { type: "string", format: "date-time" },
+            hoursAbove: {
+              type: "object",
+              description: "Hours at or above each severity level",
+              properties: Object.fromEntries(
+                Object.keys(UV_SEVERITY_THRESHOLDS).map((level) => [
+                  level,
+                  { type: "number" },
+                ])
+              ),
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+// Describe a query parameter as an OpenAPI parameter object
+const toParameter = (spec: QueryParamSpec) => ({
+  name: spec.name,
+  in: "query",
+  description: spec.description,
+  required: spec.required ?? false,
+  schema: {
+    type: spec.type,
+    ...(spec.minimum !== undefined && { minimum: spec.minimum }),
+    ...(spec.maximum !== undefined && { maximum: spec.maximum }),
+    ...(spec.enum && { enum: spec.enum }),
+    ...(spec.default !== undefined && { default: spec.default }),
+  },
+});
+
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+  },
+});
+
+// Describe an endpoint as an OpenAPI path item
+const toPathItem = (endpoint: ApiEndpoint) => ({
+  get: {
+    summary: endpoint.summary,
+    description: endpoint.description,
+    parameters: endpoint.params.map(toParameter),
+    responses: {
+      200: {
+        description: "UV data from the first provider that answered",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["data", "meta"],
+              properties: {
+                data: { $ref: `#/components/schemas/${endpoint.schema}` },
+                meta: { $ref: "#/components/schemas/Meta" },
+              },
+            },
+          },
+        },
+      },
+      400: errorResponse("Invalid query parameters"),
+      401: errorResponse("Missing or invalid API key"),
+      502: errorResponse("No provider returned data"),
+    },
+  },
+});
+
+/**
+ * Build the OpenAPI document for the v1 API
+ * @param serverUrl Origin the API is served from
+ */
+export function buildOpenApiDocument(serverUrl: string): Schema {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "UV Index API",
+      version: API_VERSION,
+      description:
+        "Normalized UV index data from Meteomatics, currentuvindex.com or an offline clear-sky estimate",
+    },
+    servers: [{ url: serverUrl }],
+    // Keys are only checked when the server is configured with some
+    security: isApiKeyRequired() ? [{ apiKey: [] }] : [],
+    paths: Object.fromEntries(
+      Object.values(API_V1_ENDPOINTS).map((endpoint) => [
+        endpoint.path,
+        toPathItem(endpoint),
+      ])
+    ),
+    components: {
+      schemas: COMPONENT_SCHEMAS,
+      securitySchemes: {
+        apiKey: {
+          type: "apiKey",
+          in: "header",
+          name: "X-API-Key",
+          description:
+            "Required from every client, browsers included, when the server sets API_KEYS. The app's own /api/uv route is not covered by keys",
+        },
+      },
+    },
+  };
+}
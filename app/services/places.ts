@@ -0,0 +1,67 @@
+// Place Catalogue
+// Bundled list of places used for offline search and reverse lookup
+
+export interface Place {
+  name: string;
+  country: string;
+  lat: number;
+  lng: number;
+  // Height above sea level in metres
+  altitude?: number;
+}
+
+export const PLACES: Place[] = [
+  // Sweden
+  { name: "Stockholm", country: "Sweden", lat: 59.3293, lng: 18.0686, altitude: 28 },
+  { name: "Gothenburg", country: "Sweden", lat: 57.7089, lng: 11.9746, altitude: 12 },
+  { name: "Malmö", country: "Sweden", lat: 55.605, lng: 13.0038, altitude: 12 },
+  { name: "Uppsala", country: "Sweden", lat: 59.8586, lng: 17.6389, altitude: 15 },
+  { name: "Västerås", country: "Sweden", lat: 59.6099, lng: 16.5448, altitude: 16 },
+  { name: "Örebro", country: "Sweden", lat: 59.2753, lng: 15.2134, altitude: 30 },
+  { name: "Linköping", country: "Sweden", lat: 58.4108, lng: 15.6214, altitude: 50 },
+  { name: "Helsingborg", country: "Sweden", lat: 56.0465, lng: 12.6945, altitude: 20 },
+  { name: "Jönköping", country: "Sweden", lat: 57.7826, lng: 14.1618, altitude: 90 },
+  { name: "Norrköping", country: "Sweden", lat: 58.5877, lng: 16.1924, altitude: 10 },
+  { name: "Lund", country: "Sweden", lat: 55.7047, lng: 13.191, altitude: 50 },
+  { name: "Umeå", country: "Sweden", lat: 63.8258, lng: 20.263, altitude: 12 },
+  { name: "Gävle", country: "Sweden", lat: 60.6749, lng: 17.1413, altitude: 10 },
+  { name: "Borås", country: "Sweden", lat: 57.721, lng: 12.9401, altitude: 140 },
+  { name: "Sundsvall", country: "Sweden", lat: 62.3908, lng: 17.3069, altitude: 10 },
+  { name: "Karlstad", country: "Sweden", lat: 59.3793, lng: 13.5036, altitude: 50 },
+  { name: "Växjö", country: "Sweden", lat: 56.8777, lng: 14.8091, altitude: 165 },
+  { name: "Halmstad", country: "Sweden", lat: 56.6745, lng: 12.8578, altitude: 10 },
+  { name: "Luleå", country: "Sweden", lat: 65.5848, lng: 22.1567, altitude: 10 },
+  { name: "Kiruna", country: "Sweden", lat: 67.8558, lng: 20.2253, altitude: 530 },
+  { name: "Östersund", country: "Sweden", lat: 63.1792, lng: 14.6357, altitude: 312 },
+  { name: "Visby", country: "Sweden", lat: 57.6348, lng: 18.2948, altitude: 20 },
+  { name: "Kalmar", country: "Sweden", lat: 56.6634, lng: 16.3568, altitude: 10 },
+  { name: "Åre", country: "Sweden", lat: 63.3991, lng: 13.0815, altitude: 380 },
+  // Nordics
+  { name: "Oslo", country: "Norway", lat: 59.9139, lng: 10.7522, altitude: 23 },
+  { name: "Bergen", country: "Norway", lat: 60.3913, lng: 5.3221, altitude: 12 },
+  { name: "Tromsø", country: "Norway", lat: 69.6492, lng: 18.9553, altitude: 10 },
+  { name: "Copenhagen", country: "Denmark", lat: 55.6761, lng: 12.5683, altitude: 14 },
+  { name: "Aarhus", country: "Denmark", lat: 56.1629, lng: 10.2039, altitude: 20 },
+  { name: "Helsinki", country: "Finland", lat: 60.1699, lng: 24.9384, altitude: 17 },
+  { name: "Reykjavík", country: "Iceland", lat: 64.1466, lng: -21.9426, altitude: 20 },
+  // Popular destinations
+  { name: "London", country: "United Kingdom", lat: 51.5072, lng: -0.1276, altitude: 11 },
+  { name: "Berlin", country: "Germany", lat: 52.52, lng: 13.405, altitude: 34 },
+  { name: "Paris", country: "France", lat: 48.8566, lng: 2.3522, altitude: 35 },
+  { name: "Amsterdam", country: "Netherlands", lat: 52.3676, lng: 4.9041, altitude: 0 },
+  { name: "Madrid", country: "Spain", lat: 40.4168, lng: -3.7038, altitude: 667 },
+  { name: "Barcelona", country: "Spain", lat: 41.3874, lng: 2.1686, altitude: 12 },
+  { name: "Málaga", country: "Spain", lat: 36.7213, lng: -4.4214, altitude: 11 },
+  { name: "Palma", country: "Spain", lat: 39.5696, lng: 2.6502, altitude: 13 },
+  { name: "Las Palmas", country: "Spain", lat: 28.1235, lng: -15.4363, altitude: 8 },
+  { name: "Lisbon", country: "Portugal", lat: 38.7223, lng: -9.1393, altitude: 2 },
+  { name: "Rome", country: "Italy", lat: 41.9028, lng: 12.4964, altitude: 21 },
+  { name: "Athens", country: "Greece", lat: 37.9838, lng: 23.7275, altitude: 70 },
+  { name: "Chania", country: "Greece", lat: 35.5138, lng: 24.018, altitude: 20 },
+  { name: "Antalya", country: "Turkey", lat: 36.8969, lng: 30.7133, altitude: 30 },
+  { name: "Chamonix", country: "France", lat: 45.9237, lng: 6.8694, altitude: 1035 },
+  { name: "Zermatt", country: "Switzerland", lat: 46.0207, lng: 7.7491, altitude: 1608 },
+  { name: "Phuket", country: "Thailand", lat: 7.8804, lng: 98.3923, altitude: 5 },
+  { name: "New York", country: "United States", lat: 40.7128, lng: -74.006, altitude: 10 },
+  { name: "Sydney", country: "Australia", lat: -33.8688, lng: 151.2093, altitude: 58 },
+];
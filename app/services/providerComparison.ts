@@ -0,0 +1,122 @@
+// Provider Comparison
+// Aligns the forecasts of several providers on a common time grid and measures
+// how far they disagree
+
+import { HourlyUVData, UVProviderId } from "./types";
+import { interpolateUVIndex, summarizeByDay } from "./uvForecast";
+
+// Forecasts of several providers sampled at the same times
+export interface AlignedForecasts {
+  times: string[];
+  // Values per provider, in the order of times
+  values: Partial<Record<UVProviderId, number[]>>;
+}
+
+// Disagreement between one provider and the reference provider
+export interface ProviderDifference {
+  provider: UVProviderId;
+  // Provider minus reference at each grid time
+  deltas: number[];
+  meanAbsoluteDifference: number;
+  maxAbsoluteDifference: number;
+  // Minutes between the provider's and the reference's peak, per day
+  // (positive means the provider peaks later); null if either has no peak
+  peakTimeOffsets: { date: string; minutes: number | null }[];
+}
+
+const GRID_MS = 60 * 60 * 1000;
+
+/**
+ * Resample forecasts onto a shared hourly grid covering the period all of them
+ * cover, by linear interpolation between each provider's own samples
+ * @param forecasts Each provider's forecast in chronological order
+ * @param gridMs Spacing of the grid in milliseconds
+ * @returns The grid and each provider's values on it; empty if the
+ * forecasts do not overlap
+ */
+export function alignForecasts(
+  forecasts: Partial<Record<UVProviderId, HourlyUVData[]>>,
+  gridMs: number = GRID_MS
+): AlignedForecasts {
+  const entries = Object.entries(forecasts).filter(
+    (entry): entry is [UVProviderId, HourlyUVData[]] =>
+      (entry[1]?.length ?? 0) > 0
+  );
+  if (entries.length === 0) return { times: [], values: {} };
+
+  const start = Math.max(
+    ...entries.map(([, forecast]) => new Date(forecast[0].time).getTime())
+  );
+  const end = Math.min(
+    ...entries.map(([, forecast]) =>
+      new Date(forecast[forecast.length - 1].time).getTime()
+    )
+  );
+
+  const grid: number[] = [];
+  const first = Math.ceil(start / gridMs) * gridMs;
+  for (let time = first; time <= end; time += gridMs) {
+    grid.push(time);
+  }
+
+  const values: AlignedForecasts["values"] = {};
+  for (const [provider, forecast] of entries) {
+    // Inside the overlap interpolation always has samples on both sides
+    values[provider] = grid.map((time) => interpolateUVIndex(forecast, time)!);
+  }
+
+  return { times: grid.map((time) => new Date(time).toISOString()), values };
+}
+
+/**
+ * Compare each provider against a reference provider
+ * @param aligned Forecasts on a shared grid, from alignForecasts
+ * @param reference Provider the others are measured against
+ * @param timeZone Time zone the peak comparison counts days in
+ * @returns One entry per provider other than the reference
+ */
+export function compareProviders(
+  aligned: AlignedForecasts,
+  reference: UVProviderId,
+  timeZone: string
+): ProviderDifference[] {
+  const referenceValues = aligned.values[reference];
+  if (!referenceValues || aligned.times.length === 0) return [];
+
+  const toSeries = (values: number[]) =>
+    values.map((uvIndex, i) => ({ time: aligned.times[i], uvIndex }));
+  const referencePeaks = summarizeByDay(toSeries(referenceValues), timeZone);
+
+  return Object.entries(aligned.values)
+    .filter(
+      (entry): entry is [UVProviderId, number[]] => entry[0] !== reference
+    )
+    .map(([provider, values]) => {
+      const deltas = values.map((value, i) => value - referenceValues[i]);
+      const absolute = deltas.map(Math.abs);
+      const peaks = summarizeByDay(toSeries(values), timeZone);
+
+      return {
+        provider,
+        deltas,
+        meanAbsoluteDifference:
+          absolute.reduce((sum, delta) => sum + delta, 0) / absolute.length,
+        maxAbsoluteDifference: Math.max(...absolute),
+        peakTimeOffsets: referencePeaks.map((referencePeak) => {
+          const peak = peaks.find((day) => day.date === referencePeak.date);
+          // A flat zero day, e.g. polar night, has no meaningful peak time
+          const comparable =
+            peak && peak.maxUvIndex > 0 && referencePeak.maxUvIndex > 0;
+
+          return {
+            date: referencePeak.date,
+            minutes: comparable
+              ? (new Date(peak.maxUvTime).getTime() -
+                  new Date(referencePeak.maxUvTime).getTime()) /
+                60000
+              : null,
+          };
+        }),
+      };
+    });
+}
@@ -0,0 +1,479 @@
+// Public API
+// Shared plumbing for the versioned /api/v1 routes: query validation driven
+// by declarative parameter specs, error envelopes, CORS and API key checks
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLocationTimeZone } from "./timeZoneLookup";
+import {
+  ForecastOptions,
+  LocationData,
+  ProviderAttempt,
+  UVData,
+  UVProviderId,
+} from "./types";
+import {
+  DEFAULT_FORECAST_OPTIONS,
+  FORECAST_INTERVALS,
+  MAX_FORECAST_DAYS,
+  MIN_FORECAST_DAYS,
+  isValidTimeZone,
+} from "./uvForecast";
+import {
+  getProviderPriority,
+  getRegisteredUVProviders,
+  getUVData,
+} from "./uvProviders";
+import {
+  DEFAULT_PALETTE,
+  ProtectiveAction,
+  SEVERITY_PALETTES,
+  UVSeverityLevel,
+  getSeverityBand,
+} from "./uvSeverity";
+
+export const API_VERSION = "1.0.0";
+
+// Machine-readable error codes returned in the error envelope
+export type ApiErrorCode = "invalid-query" | "unauthorized" | "no-data";
+
+// Body of every failed response
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    // Provider attempts for no-data errors
+    attempts?: ProviderAttempt[];
+  };
+}
+
+// Body of every successful response
+export interface ApiSuccessBody<T> {
+  data: T;
+  meta: {
+    provider: UVProviderId;
+    // Providers tried before the one that answered
+    attempts: ProviderAttempt[];
+  };
+}
+
+// Declarative description of a query parameter, used both to validate
+// requests and to generate the OpenAPI document
+export interface QueryParamSpec {
+  name: string;
+  description: string;
+  type: "number" | "integer" | "string";
+  required?: boolean;
+  minimum?: number;
+  maximum?: number;
+  enum?: (string | number)[];
+  default?: string | number;
+  // Extra check for strings, returning an error message or null
+  validate?: (value: string) => string | null;
+}
+
+export interface ApiEndpoint {
+  path: string;
+  summary: string;
+  description: string;
+  params: QueryParamSpec[];
+  // Name of the OpenAPI component schema describing data
+  schema: string;
+}
+
+// Severity of a reading on the WHO scale
+export interface ApiSeverity {
+  level: UVSeverityLevel;
+  // Official WHO colour of the level as a hex code
+  color: string;
+  actions: ProtectiveAction[];
+}
+
+// Validated query shared by every UV endpoint
+export interface UVQuery {
+  location: LocationData;
+  provider?: UVProviderId;
+  forecast: ForecastOptions;
+  // The tz parameter, or the location's own time zone
+  timeZone: string;
+}
+
+// Parsed query values by parameter name
+export type QueryValues = Record<string, string | number>;
+
+export const LOCATION_PARAMS: QueryParamSpec[] = [
+  {
+    name: "lat",
+    description: "Latitude in degrees",
+    type: "number",
+    required: true,
+    minimum: -90,
+    maximum: 90,
+  },
+  {
+    name: "lng",
+    description: "Longitude in degrees",
+    type: "number",
+    required: true,
+    minimum: -180,
+    maximum: 180,
+  },
+  {
+    name: "alt",
+    description: "Altitude in metres, refines the offline estimate",
+    type: "number",
+  },
+  {
+    name: "provider",
+    description:
+      "Query only this provider instead of the configured priority chain",
+    type: "string",
+    enum: getRegisteredUVProviders().map((provider) => provider.id),
+  },
+];
+
+export const DAYS_PARAM: QueryParamSpec = {
+  name: "days",
+  description: "Forecast horizon in days",
+  type: "integer",
+  minimum: MIN_FORECAST_DAYS,
+  maximum: MAX_FORECAST_DAYS,
+  default: DEFAULT_FORECAST_OPTIONS.days,
+};
+
+export const INTERVAL_PARAM: QueryParamSpec = {
+  name: "interval",
+  description: "Spacing of the forecast samples in minutes",
+  type: "integer",
+  enum: FORECAST_INTERVALS,
+  default: DEFAULT_FORECAST_OPTIONS.intervalMinutes,
+};
+
+// Without a default: the location's own time zone is used, as by /api/uv
+export const TIME_ZONE_PARAM: QueryParamSpec = {
+  name: "tz",
+  description:
+    "IANA time zone the calendar days are counted in, the location's by default",
+  type: "string",
+  validate: (value) =>
+    isValidTimeZone(value) ? null : `Unknown time zone: ${value}`,
+};
+
+// The v1 UV endpoints, keyed by the last path segment
+export const API_V1_ENDPOINTS: Record<
+  "current" | "forecast" | "daily",
+  ApiEndpoint
+> = {
+  current: {
+    path: "/api/v1/uv/current",
+    summary: "Current UV index",
+    description:
+      "The UV index right now from the first provider in the chain that answers",
+    params: LOCATION_PARAMS,
+    schema: "CurrentUV",
+  },
+  forecast: {
+    path: "/api/v1/uv/forecast",
+    summary: "UV forecast",
+    description: "UV index samples from now to the end of the horizon",
+    params: [...LOCATION_PARAMS, DAYS_PARAM, INTERVAL_PARAM],
+    schema: "UVForecast",
+  },
+  daily: {
+    path: "/api/v1/uv/daily",
+    summary: "Daily UV summaries",
+    description:
+      "Peak UV and hours spent at each severity level per calendar day",
+    params: [...LOCATION_PARAMS, DAYS_PARAM, TIME_ZONE_PARAM],
+    schema: "DailyUV",
+  },
+};
+
+// Split a comma-separated environment variable into its entries
+const readList = (value: string | undefined) =>
+  (value || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+/**
+ * Build an error response in the API's envelope
+ * @param status HTTP status code
+ * @param code Machine-readable error code
+ * @param message Human-readable explanation
+ * @param attempts Provider attempts, for no-data errors
+ */
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  attempts?: ProviderAttempt[]
+): NextResponse<ApiErrorBody> {
+  return NextResponse.json(
+    { error: { code, message, ...(attempts && { attempts }) } },
+    { status }
+  );
+}
+
+/**
+ * Validate a query string against parameter specs
+ * @param searchParams The request's query parameters
+ * @param params Specs of the parameters the endpoint accepts
+ * @returns The parsed values, or an error message for the first invalid one
+ */
+export function parseQueryParams(
+  searchParams: URLSearchParams,
+  params: QueryParamSpec[]
+): { values: QueryValues } | { error: string } {
+  const values: QueryValues = {};
+
+  for (const spec of params) {
+    const raw = searchParams.get(spec.name)?.trim();
+
+    if (raw === undefined || raw === "") {
+      if (spec.required) {
+        return { error: `Query parameter ${spec.name} is required` };
+      }
+      if (spec.default !== undefined) {
+        values[spec.name] = spec.default;
+      }
+      continue;
+    }
+
+    let value: string | number = raw;
+    if (spec.type !== "string") {
+      value = Number(raw);
+      if (
+        !Number.isFinite(value) ||
+        (spec.type === "integer" && !Number.isInteger(value))
+      ) {
+        const kind = spec.type === "integer" ? "an integer" : "a number";
+        return { error: `Query parameter ${spec.name} must be ${kind}` };
+      }
+      if (
+        (spec.minimum !== undefined && value < spec.minimum) ||
+        (spec.maximum !== undefined && value > spec.maximum)
+      ) {
+        return {
+          error: `Query parameter ${spec.name} must be from ${spec.minimum} to ${spec.maximum}`,
+        };
+      }
+    }
+
+    if (spec.enum && !spec.enum.includes(value)) {
+      return {
+        error: `Query parameter ${spec.name} must be one of ${spec.enum.join(", ")}`,
+      };
+    }
+
+    const invalid = spec.validate?.(raw);
+    if (invalid) {
+      return { error: invalid };
+    }
+
+    values[spec.name] = value;
+  }
+
+  return { values };
+}
+
+/**
+ * Read a parsed string value
+ * @param values Values from parseQueryParams
+ * @param name Parameter name
+ * @returns The value, or undefined if absent or not a string
+ */
+export function stringValue(
+  values: QueryValues,
+  name: string
+): string | undefined {
+  const value = values[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Read a parsed number value
+ * @param values Values from parseQueryParams
+ * @param name Parameter name
+ * @returns The value, or undefined if absent or not a number
+ */
+export function numberValue(
+  values: QueryValues,
+  name: string
+): number | undefined {
+  const value = values[name];
+  return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * Validate a query string into a UV lookup
+ * Forecast options not covered by the specs take their defaults, and days
+ * are counted in the location's time zone unless tz names another
+ * @param searchParams The request's query parameters
+ * @param params Specs of the parameters the endpoint accepts
+ * @returns The lookup, or an error message for the first invalid parameter
+ */
+export function parseUVQuery(
+  searchParams: URLSearchParams,
+  params: QueryParamSpec[]
+): { query: UVQuery; values: QueryValues } | { error: string } {
+  const parsed = parseQueryParams(searchParams, params);
+  if ("error" in parsed) return parsed;
+
+  const { values } = parsed;
+  const lat = numberValue(values, "lat");
+  const lng = numberValue(values, "lng");
+  if (lat === undefined || lng === undefined) {
+    return { error: "Query parameters lat and lng are required" };
+  }
+
+  const location = { lat, lng, altitude: numberValue(values, "alt") };
+  const provider = stringValue(values, "provider");
+  return {
+    query: {
+      location,
+      provider: getRegisteredUVProviders().find(({ id }) => id === provider)
+        ?.id,
+      forecast: {
+        days: numberValue(values, "days") ?? DEFAULT_FORECAST_OPTIONS.days,
+        intervalMinutes:
+          numberValue(values, "interval") ??
+          DEFAULT_FORECAST_OPTIONS.intervalMinutes,
+      },
+      timeZone: stringValue(values, "tz") ?? getLocationTimeZone(location),
+    },
+    values,
+  };
+}
+
+/**
+ * Describe the severity of a UV index for API output
+ * @param uvIndex The UV index value
+ */
+export function toApiSeverity(uvIndex: number): ApiSeverity {
+  const { level, actions } = getSeverityBand(uvIndex);
+  return {
+    level,
+    color: SEVERITY_PALETTES[DEFAULT_PALETTE].colors[level].fill,
+    actions,
+  };
+}
+
+/**
+ * Get the CORS headers for a request
+ * Origins allowed to call the API from a browser are configured with
+ * API_CORS_ORIGINS, a comma-separated list or "*"
+ * @param request The incoming request
+ */
+export function getCorsHeaders(request: NextRequest): Record<string, string> {
+  const origin = request.headers.get("origin");
+  const allowed = readList(process.env.API_CORS_ORIGINS);
+
+  if (!origin || (!allowed.includes("*") && !allowed.includes(origin))) {
+    return { Vary: "Origin" };
+  }
+
+  return {
+    "Access-Control-Allow-Origin": allowed.includes("*") ? "*" : origin,
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+    "Access-Control-Allow-Headers": "X-API-Key, Authorization",
+    "Access-Control-Max-Age": "86400",
+    Vary: "Origin",
+  };
+}
+
+/**
+ * Whether the API requires a key, i.e. API_KEYS is set
+ */
+export function isApiKeyRequired(): boolean {
+  return readList(process.env.API_KEYS).length > 0;
+}
+
+/**
+ * Check that a request may use the API
+ * Keys are configured with API_KEYS, a comma-separated list; leaving it unset
+ * disables the check. Every client sends one in X-API-Key or as a Bearer
+ * token, browsers on allowed CORS origins included: Origin and Sec-Fetch-Site
+ * are set by the client, so they cannot stand in for a key
+ * @param request The incoming request
+ */
+export function isAuthorized(request: NextRequest): boolean {
+  const keys = readList(process.env.API_KEYS);
+  if (keys.length === 0) return true;
+
+  const key =
+    request.headers.get("x-api-key") ??
+    request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  return Boolean(key && keys.includes(key));
+}
+
+/**
+ * Answer a CORS preflight request
+ * @param request The OPTIONS request
+ */
+export function handlePreflight(request: NextRequest): NextResponse {
+  return new NextResponse(null, { status: 204, headers: getCorsHeaders(request) });
+}
+
+/**
+ * Handle a GET to one of the v1 UV endpoints: check the key, validate the
+ * query, look up the UV data and wrap the shaped data in the envelope
+ * @param request The incoming request
+ * @param endpoint The endpoint being called
+ * @param shape Turns the UV data into the endpoint's response data
+ */
+export async function handleUVRequest<T>(
+  request: NextRequest,
+  endpoint: ApiEndpoint,
+  shape: (data: UVData, query: UVQuery) => T
+): Promise<NextResponse> {
+  const response = await respond(request, endpoint, shape);
+
+  response.headers.set("Cache-Control", "no-store");
+  for (const [name, value] of Object.entries(getCorsHeaders(request))) {
+    response.headers.set(name, value);
+  }
+
+  return response;
+}
+
+// Produce the response for handleUVRequest, before the shared headers
+const respond = async <T>(
+  request: NextRequest,
+  endpoint: ApiEndpoint,
+  shape: (data: UVData, query: UVQuery) => T
+): Promise<NextResponse> => {
+  if (!isAuthorized(request)) {
+    return apiError(
+      401,
+      "unauthorized",
+      "A valid API key is required in the X-API-Key header"
+    );
+  }
+
+  const parsed = parseUVQuery(request.nextUrl.searchParams, endpoint.params);
+  if ("error" in parsed) {
+    return apiError(400, "invalid-query", parsed.error);
+  }
+
+  const { query } = parsed;
+  const result = await getUVData(query.location, {
+    priority: query.provider ? [query.provider] : getProviderPriority(),
+    forecast: query.forecast,
+    timeZone: query.timeZone,
+  });
+
+  if (!result.data || !result.provider) {
+    return apiError(
+      502,
+      "no-data",
+      result.error?.message ?? "No UV provider answered",
+      result.attempts
+    );
+  }
+
+  const body: ApiSuccessBody<T> = {
+    data: shape(result.data, query),
+    meta: { provider: result.provider, attempts: result.attempts },
+  };
+  return NextResponse.json(body);
+};
@@ -0,0 +1,93 @@
+// Refresh Scheduler
+// Re-fetches UV data in step with the provider's forecast interval, pausing
+// while the tab is hidden and catching up when it becomes visible or online
+
+export interface RefreshSchedulerOptions {
+  // Spacing of the provider's data, refreshes land on its boundaries
+  intervalMs: number;
+  // Delay after each boundary, giving the provider time to publish
+  offsetMs?: number;
+  onRefresh: () => void;
+  // Clock, injectable for tests
+  now?: () => number;
+}
+
+export interface RefreshScheduler {
+  start(): void;
+  stop(): void;
+}
+
+const DEFAULT_OFFSET_MS = 60 * 1000;
+
+/**
+ * Get the next refresh time after a moment
+ * @param now Current time in milliseconds
+ * @param intervalMs Spacing of the refresh boundaries
+ * @param offsetMs Delay after each boundary
+ * @returns The time of the next boundary plus offset, strictly after now
+ */
+export function getNextRefreshTime(
+  now: number,
+  intervalMs: number,
+  offsetMs: number = DEFAULT_OFFSET_MS
+): number {
+  const next = Math.floor((now - offsetMs) / intervalMs + 1) * intervalMs;
+  return next + offsetMs;
+}
+
+/**
+ * Create a scheduler that calls onRefresh on each interval boundary while the
+ * page is visible, and straight away when a missed refresh is noticed on
+ * becoming visible or coming back online
+ * @param options Interval, offset and refresh callback
+ */
+export function createRefreshScheduler(
+  options: RefreshSchedulerOptions
+): RefreshScheduler {
+  const now = options.now ?? Date.now;
+  const offsetMs = options.offsetMs ?? DEFAULT_OFFSET_MS;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let dueAt = getNextRefreshTime(now(), options.intervalMs, offsetMs);
+
+  const clear = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const refresh = () => {
+    dueAt = getNextRefreshTime(now(), options.intervalMs, offsetMs);
+    options.onRefresh();
+    schedule();
+  };
+
+  const schedule = () => {
+    clear();
+    if (document.visibilityState === "hidden") return;
+    timer = setTimeout(refresh, Math.max(0, dueAt - now()));
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === "hidden") {
+      clear();
+    } else if (now() >= dueAt) {
+      refresh();
+    } else {
+      schedule();
+    }
+  };
+
+  return {
+    start() {
+      document.addEventListener("visibilitychange", onVisibilityChange);
+      window.addEventListener("online", refresh);
+      schedule();
+    },
+    stop() {
+      clear();
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      window.removeEventListener("online", refresh);
+    },
+  };
+}
@@ -0,0 +1,82 @@
+// Saved Locations Storage
+// Persists named locations in localStorage so several sites can be compared
+
+import { LocationData } from "./types";
+
+export interface SavedLocation {
+  id: string;
+  name: string;
+  location: LocationData;
+}
+
+const STORAGE_KEY = "uv-index:saved-locations";
+
+// Check that a parsed value looks like a saved location
+const isSavedLocation = (value: unknown): value is SavedLocation => {
+  const saved = value as SavedLocation | null;
+  return (
+    typeof saved?.id === "string" &&
+    typeof saved.name === "string" &&
+    Number.isFinite(saved.location?.lat) &&
+    Number.isFinite(saved.location?.lng)
+  );
+};
+
+/**
+ * Load the saved locations, ignoring any malformed entries
+ */
+export function loadSavedLocations(): SavedLocation[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? saved.filter(isSavedLocation) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save the full list of locations
+ * @param locations Locations to remember
+ */
+export function saveSavedLocations(locations: SavedLocation[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(locations));
+}
+
+/**
+ * Add a named location to the saved list
+ * @param name Display name, e.g. "Office"
+ * @param location Location data with latitude and longitude
+ * @returns The updated list
+ */
+export function addSavedLocation(
+  name: string,
+  location: LocationData
+): SavedLocation[] {
+  const locations = [
+    ...loadSavedLocations(),
+    { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, name, location },
+  ];
+  saveSavedLocations(locations);
+  return locations;
+}
+
+/**
+ * Remove a saved location
+ * @param id Id of the location to remove
+ * @returns The updated list
+ */
+export function removeSavedLocation(id: string): SavedLocation[] {
+  const locations = loadSavedLocations().filter(
+    (saved) => saved.id !== id
+  );
+  saveSavedLocations(locations);
+  return locations;
+}
+
+/**
+ * Serialize the saved locations for download
+ * @returns Pretty-printed JSON
+ */
+export function exportSavedLocations(): string {
+  return JSON.stringify(loadSavedLocations(), null, 2);
+}
@@ -0,0 +1,41 @@
+// Skin Settings Storage
+// Persists the user's skin type and sunscreen choice in localStorage
+
+import { FitzpatrickSkinType, SKIN_TYPES } from "./skinType";
+
+export interface SkinSettings {
+  // null until the user has picked a skin type
+  skinType: FitzpatrickSkinType | null;
+  spf: number;
+}
+
+const STORAGE_KEY = "uv-index:skin-settings";
+
+export const DEFAULT_SKIN_SETTINGS: SkinSettings = { skinType: null, spf: 1 };
+
+/**
+ * Load the saved skin settings, falling back to the defaults
+ */
+export function loadSkinSettings(): SkinSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    if (!saved) return DEFAULT_SKIN_SETTINGS;
+
+    return {
+      skinType: SKIN_TYPES.some((info) => info.type === saved.skinType)
+        ? saved.skinType
+        : null,
+      spf: Number(saved.spf) >= 1 ? Number(saved.spf) : 1,
+    };
+  } catch {
+    return DEFAULT_SKIN_SETTINGS;
+  }
+}
+
+/**
+ * Save the skin settings
+ * @param settings Skin type and SPF to remember
+ */
+export function saveSkinSettings(settings: SkinSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,76 @@
+// Skin Type Exposure Model
+// Estimates how long a person can stay in the sun before reaching a minimal
+// erythemal dose (MED), based on their Fitzpatrick skin type and sunscreen
+
+import { UVExposure, findUVExposureTime } from "./uvForecast";
+
+export type FitzpatrickSkinType = "I" | "II" | "III" | "IV" | "V" | "VI";
+
+export interface SkinTypeInfo {
+  type: FitzpatrickSkinType;
+  description: string;
+  // Minimal erythemal dose in J/m² of erythemally weighted UV
+  medJoulesPerM2: number;
+}
+
+// Typical MED values per skin type
+export const SKIN_TYPES: SkinTypeInfo[] = [
+  { type: "I", description: "Always burns, never tans", medJoulesPerM2: 200 },
+  { type: "II", description: "Usually burns, tans minimally", medJoulesPerM2: 250 },
+  { type: "III", description: "Sometimes burns, tans gradually", medJoulesPerM2: 350 },
+  { type: "IV", description: "Rarely burns, tans easily", medJoulesPerM2: 450 },
+  { type: "V", description: "Very rarely burns, tans darkly", medJoulesPerM2: 600 },
+  { type: "VI", description: "Never burns", medJoulesPerM2: 1000 },
+];
+
+// One UV index unit is 25 mW/m² of erythemally weighted irradiance
+export const JOULES_PER_M2_PER_UVI_MINUTE = 0.025 * 60;
+
+// Longest exposure looked ahead for a burn; beyond a day the sun has set and
+// risen again, so a burn time would mean nothing
+const BURN_TIME_HORIZON_MS = 24 * 60 * 60 * 1000;
+
+export interface BurnTimeOptions {
+  // Moment exposure starts, in milliseconds since the epoch
+  startTime: number;
+  // Sun protection factor of the sunscreen applied, 1 for none
+  spf?: number;
+}
+
+/**
+ * Look up a skin type
+ * @param type Fitzpatrick skin type
+ */
+export function getSkinTypeInfo(type: FitzpatrickSkinType): SkinTypeInfo {
+  return SKIN_TYPES.find((info) => info.type === type)!;
+}
+
+/**
+ * Estimate the minutes of exposure until a minimal erythemal dose is reached
+ * The dose follows the forecast from the start time, so changes in UV over
+ * the exposure are taken into account
+ * @param exposure Forecast prepared with createUVExposure
+ * @param skinType Fitzpatrick skin type
+ * @param options Start time and sunscreen SPF
+ * @returns Whole minutes until the MED is reached, or null if it is not
+ * reached within 24 hours or before the forecast ends
+ */
+export function estimateBurnTime(
+  exposure: UVExposure,
+  skinType: FitzpatrickSkinType,
+  options: BurnTimeOptions
+): number | null {
+  const spf = Math.max(1, options.spf ?? 1);
+  const med = getSkinTypeInfo(skinType).medJoulesPerM2 * spf;
+
+  const burnAt = findUVExposureTime(
+    exposure,
+    options.startTime,
+    med / JOULES_PER_M2_PER_UVI_MINUTE,
+    options.startTime + BURN_TIME_HORIZON_MS
+  );
+  return burnAt === null
+    ? null
+    : // Allow for rounding in the sum, so a dose reached on the minute counts
+      Math.max(1, Math.ceil((burnAt - options.startTime) / 60000 - 1e-9));
+}
@@ -0,0 +1,150 @@
+// Solar Geometry UV Estimate
+// Computes a clear-sky UV index from the sun's position, without any network
+// access. Used as a last-resort provider and as a baseline for provider values
+
+import {
+  ForecastOptions,
+  HourlyUVData,
+  LocationData,
+  UVData,
+  UVProvider,
+  findMaxUV,
+} from "./types";
+import { DEFAULT_FORECAST_OPTIONS } from "./uvForecast";
+
+// Climatological mean total ozone column in Dobson units
+export const DEFAULT_OZONE_DU = 300;
+
+export interface ClearSkyOptions {
+  // Ozone column in Dobson units
+  ozone?: number;
+}
+
+const DEG = Math.PI / 180;
+
+/**
+ * Compute the solar zenith angle using the NOAA low-precision equations
+ * @param date Moment to compute for
+ * @param location Location data with latitude and longitude
+ * @returns The zenith angle in degrees, above 90 when the sun is down
+ */
+export function getSolarZenithAngle(date: Date, location: LocationData): number {
+  const startOfYear = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const dayOfYear = Math.floor((date.getTime() - startOfYear) / 86400000) + 1;
+  const hours =
+    date.getUTCHours() +
+    date.getUTCMinutes() / 60 +
+    date.getUTCSeconds() / 3600;
+
+  // Fractional year in radians
+  const gamma = ((2 * Math.PI) / 365) * (dayOfYear - 1 + (hours - 12) / 24);
+
+  // Equation of time in minutes and solar declination in radians
+  const equationOfTime =
+    229.18 *
+    (0.000075 +
+      0.001868 * Math.cos(gamma) -
+      0.032077 * Math.sin(gamma) -
+      0.014615 * Math.cos(2 * gamma) -
+      0.040849 * Math.sin(2 * gamma));
+  const declination =
+    0.006918 -
+    0.399912 * Math.cos(gamma) +
+    0.070257 * Math.sin(gamma) -
+    0.006758 * Math.cos(2 * gamma) +
+    0.000907 * Math.sin(2 * gamma) -
+    0.002697 * Math.cos(3 * gamma) +
+    0.00148 * Math.sin(3 * gamma);
+
+  // True solar time in minutes and hour angle in radians
+  const solarTime = hours * 60 + equationOfTime + 4 * location.lng;
+  const hourAngle = (solarTime / 4 - 180) * DEG;
+
+  const lat = location.lat * DEG;
+  const cosZenith =
+    Math.sin(lat) * Math.sin(declination) +
+    Math.cos(lat) * Math.cos(declination) * Math.cos(hourAngle);
+
+  return Math.acos(Math.min(1, Math.max(-1, cosZenith))) / DEG;
+}
+
+/**
+ * Estimate the clear-sky UV index at a moment and place
+ * Uses the empirical UVI = 12.5 · cos(SZA)^2.42 · (ozone / 300)^-1.23 fit,
+ * increased by 6% per kilometre of altitude
+ * @param date Moment to estimate
+ * @param location Location data, with altitude in metres if known
+ * @param options Ozone column to assume
+ * @returns The estimated UV index, 0 when the sun is down
+ */
+export function estimateClearSkyUVIndex(
+  date: Date,
+  location: LocationData,
+  options: ClearSkyOptions = {}
+): number {
+  const ozone = options.ozone ?? DEFAULT_OZONE_DU;
+  const cosZenith = Math.cos(getSolarZenithAngle(date, location) * DEG);
+
+  if (cosZenith <= 0) {
+    return 0;
+  }
+
+  const altitudeKm = Math.max(0, location.altitude ?? 0) / 1000;
+  const uvIndex =
+    12.5 *
+    Math.pow(cosZenith, 2.42) *
+    Math.pow(ozone / DEFAULT_OZONE_DU, -1.23) *
+    (1 + 0.06 * altitudeKm);
+
+  return Math.round(uvIndex * 10) / 10;
+}
+
+/**
+ * Build a clear-sky UV forecast for a location
+ * @param location Location data with latitude and longitude
+ * @param options Forecast horizon and interval
+ * @param now Start of the forecast, injectable for tests
+ * @returns UV data in the normalized shape
+ */
+export async function fetchSolarEstimateUVData(
+  location: LocationData,
+  options: ForecastOptions = DEFAULT_FORECAST_OPTIONS,
+  now: Date = new Date()
+): Promise<UVData> {
+  const stepMs = options.intervalMinutes * 60 * 1000;
+  const samples = (options.days * 24 * 60) / options.intervalMinutes;
+
+  const hourlyForecast: HourlyUVData[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const time = new Date(now.getTime() + i * stepMs);
+    hourlyForecast.push({
+      time: time.toISOString(),
+      uvIndex: estimateClearSkyUVIndex(time, location),
+    });
+  }
+
+  const { maxUvIndex, maxUvTime } = findMaxUV(hourlyForecast);
+
+  return {
+    uvIndex: hourlyForecast[0].uvIndex,
+    timestamp: hourlyForecast[0].time,
+    maxUvIndex,
+    maxUvTime,
+    hourlyForecast,
+    source: "Clear-sky estimate from solar position (no cloud cover)",
+    provider: "estimate",
+    latitude: location.lat,
+    longitude: location.lng,
+    elevation: Math.max(0, location.altitude ?? 0),
+    clearSky: true,
+  };
+}
+
+// Provider registration for the offline estimate, which is always available
+export const solarEstimateProvider: UVProvider = {
+  id: "estimate",
+  name: "Clear-sky estimate",
+  isConfigured: () => true,
+  fetchUVData: (location, options) =>
+    fetchSolarEstimateUVData(location, options),
+};
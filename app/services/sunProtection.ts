@@ -0,0 +1,78 @@
+// Sun Protection Windows
+// Works out when during a forecast the UV index is high enough to need protection
+
+import { HourlyUVData } from "./types";
+
+// UV index from which sun protection is recommended
+export const DEFAULT_PROTECTION_THRESHOLD = 3;
+
+// A contiguous period where the UV index is at or above the threshold
+export interface ProtectionInterval {
+  start: string;
+  end: string;
+  peakUvIndex: number;
+}
+
+/**
+ * Estimate the time at which UV crosses the threshold between two samples
+ * by linear interpolation
+ */
+const crossingTime = (
+  before: HourlyUVData,
+  after: HourlyUVData,
+  threshold: number
+): string => {
+  const startMs = new Date(before.time).getTime();
+  const endMs = new Date(after.time).getTime();
+  const fraction =
+    (threshold - before.uvIndex) / (after.uvIndex - before.uvIndex);
+
+  return new Date(startMs + fraction * (endMs - startMs)).toISOString();
+};
+
+/**
+ * Find the periods in a forecast where sun protection is needed
+ * Start and end times are interpolated between samples, so they fall where the
+ * UV index is estimated to reach the threshold rather than on the hour. A period
+ * that is already running at the first sample, or still running at the last,
+ * is cut off at that sample
+ * @param forecast Forecast samples in chronological order
+ * @param threshold UV index from which protection is needed
+ * @returns The protection periods in chronological order
+ */
+export function getProtectionIntervals(
+  forecast: HourlyUVData[],
+  threshold: number = DEFAULT_PROTECTION_THRESHOLD
+): ProtectionInterval[] {
+  const intervals: ProtectionInterval[] = [];
+  let current: ProtectionInterval | null = null;
+
+  for (let i = 0; i < forecast.length; i++) {
+    const sample = forecast[i];
+    const above = sample.uvIndex >= threshold;
+    const previous = forecast[i - 1];
+
+    if (above && !current) {
+      current = {
+        start: previous
+          ? crossingTime(previous, sample, threshold)
+          : sample.time,
+        end: sample.time,
+        peakUvIndex: sample.uvIndex,
+      };
+    } else if (above && current) {
+      current.end = sample.time;
+      current.peakUvIndex = Math.max(current.peakUvIndex, sample.uvIndex);
+    } else if (!above && current) {
+      current.end = crossingTime(previous, sample, threshold);
+      intervals.push(current);
+      current = null;
+    }
+  }
+
+  if (current) {
+    intervals.push(current);
+  }
+
+  return intervals;
+}
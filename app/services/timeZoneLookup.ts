@@ -0,0 +1,21 @@
+// Time Zone Lookup
+// Finds the IANA time zone of a location from its coordinates, so forecasts
+// are shown in the local time of the place being forecast. Server-only, to
+// keep the zone boundaries out of the browser bundle
+
+import tzLookup from "@photostructure/tz-lookup";
+import { LocationData } from "./types";
+
+/**
+ * Get the time zone a location observes
+ * @param location Location data with latitude and longitude
+ * @returns IANA time zone name, e.g. "Europe/Stockholm"; out at sea this is
+ * a fixed-offset zone such as "Etc/GMT+2", and UTC if the lookup fails
+ */
+export function getLocationTimeZone(location: LocationData): string {
+  try {
+    return tzLookup(location.lat, location.lng);
+  } catch {
+    return "UTC";
+  }
+}
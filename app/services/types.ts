@@ -0,0 +1,138 @@
+// Shared UV data types
+// Every provider normalizes its upstream payload into these shapes so the UI
+// does not need to know which service actually answered
+
+// Location data interface shared by all services
+export interface LocationData {
+  lat: number;
+  lng: number;
+  address?: string;
+  // Height above sea level in metres, if known
+  altitude?: number;
+}
+
+// A single hourly sample from a provider's forecast
+export interface HourlyUVData {
+  time: string;
+  uvIndex: number;
+  // Share of the sky covered by cloud in percent, where the provider reports it
+  cloudCover?: number;
+}
+
+// Forecast window requested from a provider
+export interface ForecastOptions {
+  // Horizon in days, starting now
+  days: number;
+  // Spacing between forecast samples in minutes
+  intervalMinutes: number;
+}
+
+// Peak and exposure summary for one local calendar day
+export interface DailyUVSummary {
+  // Local date as YYYY-MM-DD
+  date: string;
+  maxUvIndex: number;
+  maxUvTime: string;
+  // Hours at or above each severity level, keyed by level name
+  hoursAbove: Record<string, number>;
+}
+
+// Identifiers of the providers known to the registry
+export type UVProviderId = "meteomatics" | "currentuvindex" | "estimate";
+
+// Normalized UV data returned by every provider
+export interface UVData {
+  uvIndex: number;
+  timestamp: string;
+  maxUvIndex?: number;
+  maxUvTime?: string;
+  hourlyForecast?: HourlyUVData[];
+  // Per-day summaries in timeZone, present when the forecast was summarized
+  daily?: DailyUVSummary[];
+  timeZone?: string;
+  source: string;
+  provider: UVProviderId;
+  latitude: number;
+  longitude: number;
+  // Terrain height in metres the values are modelled for, where known
+  elevation?: number;
+  // Whether the values leave out the effect of clouds
+  clearSky?: boolean;
+}
+
+/**
+ * Find the peak of an hourly forecast
+ * @param hourlyForecast Hourly samples to search
+ * @returns The max UV index and its time, or empty values for an empty forecast
+ */
+export function findMaxUV(hourlyForecast: HourlyUVData[]): {
+  maxUvIndex?: number;
+  maxUvTime?: string;
+} {
+  if (hourlyForecast.length === 0) {
+    return {};
+  }
+
+  const maxUvEntry = hourlyForecast.reduce((prev, current) =>
+    prev.uvIndex > current.uvIndex ? prev : current
+  );
+
+  return { maxUvIndex: maxUvEntry.uvIndex, maxUvTime: maxUvEntry.time };
+}
+
+// Kinds of failure a UV lookup can end in
+export type UVErrorKind =
+  | "auth"
+  | "rate-limited"
+  | "network"
+  | "malformed"
+  | "out-of-range"
+  | "geolocation-denied"
+  | "geolocation-unavailable"
+  | "not-configured"
+  | "upstream";
+
+// Serializable description of a failed UV lookup
+export interface UVError {
+  kind: UVErrorKind;
+  message: string;
+  provider?: UVProviderId;
+  // HTTP status of the upstream response, if there was one
+  status?: number;
+}
+
+// Outcome of a single provider in the priority chain that did not answer
+export interface ProviderAttempt {
+  provider: UVProviderId;
+  error: UVError;
+}
+
+// Result of querying the priority chain
+export interface UVDataResult {
+  data: UVData | null;
+  provider: UVProviderId | null;
+  attempts: ProviderAttempt[];
+  // Why no data was returned, set when data is null
+  error?: UVError;
+  // When the data was fetched, set when it came from the offline cache
+  cachedAt?: string;
+}
+
+// Public description of a registered provider, as served by /api/uv/providers
+export interface UVProviderInfo {
+  id: UVProviderId;
+  name: string;
+  configured: boolean;
+}
+
+// Contract every UV data provider implements
+export interface UVProvider {
+  id: UVProviderId;
+  name: string;
+  // How long a response stays fresh in the response cache
+  cacheTtlMs?: number;
+  // Whether the provider has what it needs (e.g. credentials) to be queried
+  isConfigured(): boolean;
+  // Fetch and normalize UV data for the forecast window, throwing on any failure
+  fetchUVData(location: LocationData, options: ForecastOptions): Promise<UVData>;
+}
@@ -0,0 +1,208 @@
+// UV Adjustments
+// Corrects the reported UV index for the user's altitude and the light
+// reflected by the surface around them. Clouds are left to the providers,
+// whose values already include them
+
+import { HourlyUVData, UVData, findMaxUV } from "./types";
+import { summarizeByDay } from "./uvForecast";
+
+export type SurfaceType = "none" | "grass" | "water" | "sand" | "snow";
+
+export const SURFACE_TYPES: SurfaceType[] = [
+  "none",
+  "grass",
+  "water",
+  "sand",
+  "snow",
+];
+
+// Share of UV the surface reflects back onto the body, after the WHO's
+// figures: fresh snow up to 80%, dry sand about 15%, water about 10% and
+// grass under 10%
+export const SURFACE_ALBEDO: Record<SurfaceType, number> = {
+  none: 0,
+  grass: 0.03,
+  water: 0.1,
+  sand: 0.15,
+  snow: 0.8,
+};
+
+// Increase in UV per 1000 m of altitude (WHO)
+export const UV_INCREASE_PER_KM = 0.1;
+
+const SURFACE_STORAGE_KEY = "uv-index:surface";
+
+// What the user knows about where they are
+export interface AdjustmentSettings {
+  surface: SurfaceType;
+  // Altitude in metres from the device's GPS or the place the user picked;
+  // never one borrowed from a nearby place
+  altitude?: number;
+}
+
+// Multipliers applied to a reported UV index; 1 means no change
+export interface AdjustmentFactors {
+  elevation: number;
+  surface: number;
+  total: number;
+  // Cloud cover of the sample in percent, where reported; shown for context
+  // only, as the provider's value already includes it
+  cloudCover?: number;
+}
+
+// Data adjusted for the user's surroundings, alongside the reported values
+export interface AdjustedUVData {
+  data: UVData;
+  raw: UVData;
+  // Whether any factor differs from 1 anywhere in the forecast
+  adjusted: boolean;
+}
+
+/**
+ * Get the increase in UV from the modelled terrain height up to the user's
+ * altitude. Being below the terrain never lowers the reported value, so an
+ * imprecise altitude cannot understate the risk
+ * @param altitude The user's altitude in metres
+ * @param elevation Height the provider's values are modelled for, in metres
+ * @returns The factor, or 1 if either height is unknown
+ */
+export function getElevationFactor(
+  altitude: number | undefined,
+  elevation: number | undefined
+): number {
+  if (altitude === undefined || elevation === undefined) return 1;
+  return Math.max(1, 1 + (UV_INCREASE_PER_KM * (altitude - elevation)) / 1000);
+}
+
+/**
+ * Get the increase in UV from light reflected by the surroundings
+ * @param surface Surface around the user
+ */
+export function getSurfaceFactor(surface: SurfaceType): number {
+  return 1 + SURFACE_ALBEDO[surface];
+}
+
+/**
+ * Work out the factors for one forecast sample
+ * @param data Provider data the sample belongs to
+ * @param sample The sample, for its cloud cover
+ * @param settings The user's surroundings
+ */
+export function getAdjustmentFactors(
+  data: UVData,
+  sample: HourlyUVData | undefined,
+  settings: AdjustmentSettings
+): AdjustmentFactors {
+  const elevation = getElevationFactor(settings.altitude, data.elevation);
+  const surface = getSurfaceFactor(settings.surface);
+
+  return {
+    elevation,
+    surface,
+    total: elevation * surface,
+    cloudCover: sample?.cloudCover,
+  };
+}
+
+/**
+ * Find the forecast sample closest to a time
+ * @param forecast Forecast samples
+ * @param time ISO timestamp
+ * @returns The sample, or undefined for an empty forecast
+ */
+export function findNearestSample(
+  forecast: HourlyUVData[],
+  time: string
+): HourlyUVData | undefined {
+  const target = new Date(time).getTime();
+  let nearest: HourlyUVData | undefined;
+  let closest = Infinity;
+
+  for (const sample of forecast) {
+    const distance = Math.abs(new Date(sample.time).getTime() - target);
+    if (distance < closest) {
+      nearest = sample;
+      closest = distance;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Adjust the current reading and every forecast sample for the user's
+ * surroundings, re-summarizing the days from the adjusted samples
+ * @param data Data as reported by the provider
+ * @param settings The user's surroundings
+ * @returns The adjusted data and the reported data
+ */
+export function adjustUVData(
+  data: UVData,
+  settings: AdjustmentSettings
+): AdjustedUVData {
+  const forecast = data.hourlyForecast ?? [];
+  let adjusted = false;
+  const adjust = (sample: HourlyUVData | undefined, uvIndex: number) => {
+    const { total } = getAdjustmentFactors(data, sample, settings);
+    if (total !== 1) adjusted = true;
+    return uvIndex * total;
+  };
+
+  const hourlyForecast = forecast.map((sample) => ({
+    ...sample,
+    uvIndex: adjust(sample, sample.uvIndex),
+  }));
+  const uvIndex = adjust(
+    findNearestSample(forecast, data.timestamp),
+    data.uvIndex
+  );
+
+  if (!adjusted) return { data, raw: data, adjusted };
+
+  // Only re-summarize when the provider data was summarized to begin with
+  const daily =
+    data.daily && data.timeZone
+      ? summarizeByDay(hourlyForecast, data.timeZone)
+      : data.daily;
+
+  return {
+    data: {
+      ...data,
+      uvIndex,
+      hourlyForecast,
+      daily,
+      ...(hourlyForecast.length > 0 && findMaxUV(hourlyForecast)),
+    },
+    raw: data,
+    adjusted,
+  };
+}
+
+/**
+ * Check whether a value names a surface type
+ * @param value Value to check
+ */
+export function isSurfaceType(value: unknown): value is SurfaceType {
+  return SURFACE_TYPES.includes(value as SurfaceType);
+}
+
+/**
+ * Load the saved surface type, defaulting to none
+ */
+export function loadSurface(): SurfaceType {
+  try {
+    const saved = localStorage.getItem(SURFACE_STORAGE_KEY);
+    if (isSurfaceType(saved)) return saved;
+  } catch {
+    // Storage may be unavailable, e.g. in private browsing
+  }
+  return "none";
+}
+
+/**
+ * Save the chosen surface type
+ * @param surface Surface to remember
+ */
+export function saveSurface(surface: SurfaceType): void {
+  localStorage.setItem(SURFACE_STORAGE_KEY, surface);
+}
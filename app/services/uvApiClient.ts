@@ -0,0 +1,122 @@
+// UV API Client
+// Browser-side access to the UV data served by our own /api/uv route
+
+import { fetchWithRetry } from "./httpClient";
+import {
+  ForecastOptions,
+  LocationData,
+  UVDataResult,
+  UVProviderId,
+  UVProviderInfo,
+} from "./types";
+import { UVServiceError, toUVError } from "./uvErrors";
+
+// Options for a lookup through the API route
+export interface FetchUVDataOptions extends Partial<ForecastOptions> {
+  // Restrict the lookup to a single provider instead of the priority chain
+  provider?: UVProviderId;
+  // Aborts the request, e.g. when the component that made it unmounts
+  signal?: AbortSignal;
+}
+
+// The route already retries upstream, so the browser only waits, with a
+// limit so a hung request does not leave a spinner forever
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Set by the service worker (public/sw.js) on forecasts it answers from its
+// cache while offline, to the time they were fetched
+const CACHED_AT_HEADER = "X-UV-Cached-At";
+
+/**
+ * Fetch UV data for a location through the server-side API route
+ * The forecast is summarized into calendar days in the location's time zone,
+ * which the route looks up from the coordinates
+ * @param location Location data with latitude and longitude
+ * @param options Provider restriction and forecast window
+ * @returns The data with the provider that answered, plus the failed attempts;
+ * cachedAt is set when the service worker answered from its offline cache
+ * @throws UVServiceError when the route cannot be reached or rejects the request
+ */
+export async function fetchUVData(
+  location: LocationData,
+  options: FetchUVDataOptions = {}
+): Promise<UVDataResult> {
+  const params = new URLSearchParams({
+    lat: String(location.lat),
+    lng: String(location.lng),
+  });
+  if (location.altitude !== undefined) {
+    params.set("alt", String(location.altitude));
+  }
+  if (options.provider) {
+    params.set("provider", options.provider);
+  }
+  if (options.days) {
+    params.set("days", String(options.days));
+  }
+  if (options.intervalMinutes) {
+    params.set("interval", String(options.intervalMinutes));
+  }
+
+  let response: Response;
+  let body;
+  try {
+    response = await fetchWithRetry(`/api/uv?${params}`, {
+      cache: "no-store",
+      signal: options.signal,
+      timeoutMs: REQUEST_TIMEOUT_MS,
+      retries: 0,
+    });
+    body = await response.json();
+  } catch (error) {
+    // Let cancellation through untouched so callers can ignore it
+    if (options.signal?.aborted) throw error;
+    throw error instanceof UVServiceError
+      ? error
+      : new UVServiceError(toUVError(error));
+  }
+
+  // 502 still carries a result describing the failed attempts
+  if (!response.ok && response.status !== 502) {
+    throw new UVServiceError({
+      kind: "upstream",
+      message: body.error || `Error fetching UV index: ${response.status}`,
+      status: response.status,
+    });
+  }
+
+  const cachedAt = response.headers.get(CACHED_AT_HEADER);
+  return cachedAt
+    ? { ...(body as UVDataResult), cachedAt }
+    : (body as UVDataResult);
+}
+
+/**
+ * List the providers registered on the server
+ * @param signal Aborts the request
+ * @throws UVServiceError when the route cannot be reached
+ */
+export async function fetchUVProviders(
+  signal?: AbortSignal
+): Promise<UVProviderInfo[]> {
+  try {
+    const response = await fetchWithRetry("/api/uv/providers", {
+      signal,
+      timeoutMs: REQUEST_TIMEOUT_MS,
+      retries: 0,
+    });
+    if (!response.ok) {
+      throw new UVServiceError({
+        kind: "upstream",
+        message: `Error listing providers: ${response.status}`,
+        status: response.status,
+      });
+    }
+    return await response.json();
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw error instanceof UVServiceError
+      ? error
+      : new UVServiceError(toUVError(error));
+  }
+}
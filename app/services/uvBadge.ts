@@ -0,0 +1,197 @@
+// UV Badge
+// A small image of the current UV index, coloured by severity, for
+// hot-linking in dashboards and emails
+
+import { NextRequest, NextResponse } from "next/server";
+import { translate } from "./i18n";
+import { interpolateUVIndex } from "./uvForecast";
+import { getProviderPriority, getUVData } from "./uvProviders";
+import { SeverityColors, getUVSeverity } from "./uvSeverity";
+import { BadgeOptions } from "./uvWidget";
+
+// Text and layout of a badge, shared by the SVG and PNG renderings
+export interface UVBadge {
+  // Left part, e.g. "UV index"
+  title: string;
+  // Right part, e.g. "5.2 Moderate", or a notice when there is no reading
+  value: string;
+  colors: SeverityColors;
+  titleWidth: number;
+  width: number;
+  // Whether a reading was found; failed badges are cached briefly
+  ok: boolean;
+}
+
+export type BadgeFormat = "svg" | "png";
+
+export const BADGE_HEIGHT = 20;
+export const BADGE_FONT_SIZE = 11;
+
+// Average glyph width at the badge's font size, to size the parts before
+// the text is laid out
+const CHAR_WIDTH = 7;
+const PADDING = 6;
+
+export const BADGE_TITLE_COLORS: SeverityColors = {
+  fill: "#555555",
+  text: "#ffffff",
+};
+const UNAVAILABLE_COLORS: SeverityColors = {
+  fill: "#9f9f9f",
+  text: "#ffffff",
+};
+
+// How long caches may keep a badge, in seconds. The current reading is
+// interpolated from the forecast, so it moves noticeably within the hour
+const MAX_AGE = 600;
+// How long a stale badge may still be shown while a fresh one is fetched
+const STALE_WHILE_REVALIDATE = 3600;
+// Failed lookups are retried sooner
+const FAILED_MAX_AGE = 60;
+
+// Width of a badge part holding some text
+const measure = (text: string) => text.length * CHAR_WIDTH + 2 * PADDING;
+
+/**
+ * Lay out a badge for a UV index
+ * @param uvIndex The current UV index, or null when no provider answered
+ * @param options Language and palette of the badge
+ */
+export function createBadge(
+  uvIndex: number | null,
+  { locale, palette }: Pick<BadgeOptions, "locale" | "palette">
+): UVBadge {
+  const title = translate(locale, "badge.title");
+  let value = translate(locale, "badge.unavailable");
+  let colors = UNAVAILABLE_COLORS;
+
+  if (uvIndex !== null) {
+    const severity = getUVSeverity(uvIndex, locale, palette);
+    value = `${uvIndex.toFixed(1)} ${severity.label}`;
+    colors = severity.colors;
+  }
+
+  const titleWidth = measure(title);
+  return {
+    title,
+    value,
+    colors,
+    titleWidth,
+    width: titleWidth + measure(value),
+    ok: uvIndex !== null,
+  };
+}
+
+/**
+ * Look up the UV index right now and lay out its badge
+ * @param options Location, provider, language and palette of the badge
+ */
+export async function loadBadge(options: BadgeOptions): Promise<UVBadge> {
+  const result = await getUVData(options.location, {
+    priority: options.provider ? [options.provider] : getProviderPriority(),
+  });
+  const uvIndex = result.data
+    ? interpolateUVIndex(result.data.hourlyForecast ?? [], Date.now()) ??
+      result.data.uvIndex
+    : null;
+
+  return createBadge(uvIndex, options);
+}
+
+// Escape text for use in SVG markup
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Render a badge as an SVG document
+ * @param badge The laid out badge
+ */
+export function renderBadgeSvg(badge: UVBadge): string {
+  const { title, value, colors, titleWidth, width } = badge;
+  const valueWidth = width - titleWidth;
+  const label = escapeXml(`${title}: ${value}`);
+
+  const rect = (x: number, partWidth: number, fill: string) =>
+    `<rect x="${x}" width="${partWidth}" height="${BADGE_HEIGHT}" ` +
+    `fill="${fill}"/>`;
+  // Centre text in a part, stretched or squeezed to the measured width
+  const text = (content: string, x: number, partWidth: number, fill: string) =>
+    `<text x="${x + partWidth / 2}" y="14" fill="${fill}" ` +
+    `textLength="${partWidth - 2 * PADDING}">${escapeXml(content)}</text>`;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" ` +
+      `height="${BADGE_HEIGHT}" role="img" aria-label="${label}">`,
+    `<title>${label}</title>`,
+    rect(0, titleWidth, BADGE_TITLE_COLORS.fill),
+    rect(titleWidth, valueWidth, colors.fill),
+    `<g font-family="Verdana,DejaVu Sans,sans-serif" ` +
+      `font-size="${BADGE_FONT_SIZE}" text-anchor="middle">`,
+    text(title, 0, titleWidth, BADGE_TITLE_COLORS.text),
+    text(value, titleWidth, valueWidth, colors.text),
+    "</g>",
+    "</svg>",
+  ].join("\n");
+}
+
+/**
+ * Get the entity tag of a badge, so unchanged badges are answered with 304
+ * @param badge The laid out badge
+ * @param format Image format, since the tag must differ per representation
+ */
+export function getBadgeEtag(badge: UVBadge, format: BadgeFormat): string {
+  const key = `${format}|${badge.title}|${badge.value}|${badge.colors.fill}`;
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  return `W/"${(hash >>> 0).toString(16)}"`;
+}
+
+/**
+ * Get the response headers of a badge
+ * Badges are public and may be kept by browsers, proxies and email image
+ * caches for a few minutes, and be embedded from any site
+ * @param badge The laid out badge
+ * @param format Image format
+ */
+export function getBadgeHeaders(
+  badge: UVBadge,
+  format: BadgeFormat
+): Record<string, string> {
+  const cacheControl = badge.ok
+    ? `public, max-age=${MAX_AGE}, s-maxage=${MAX_AGE}, ` +
+      `stale-while-revalidate=${STALE_WHILE_REVALIDATE}`
+    : `public, max-age=${FAILED_MAX_AGE}`;
+
+  return {
+    "Content-Type":
+      format === "svg" ? "image/svg+xml; charset=utf-8" : "image/png",
+    "Cache-Control": cacheControl,
+    ETag: getBadgeEtag(badge, format),
+    "Cross-Origin-Resource-Policy": "cross-origin",
+    "Access-Control-Allow-Origin": "*",
+  };
+}
+
+/**
+ * Answer a conditional request for a badge the client already has
+ * @param request The incoming request
+ * @param badge The laid out badge
+ * @param format Image format
+ * @returns A 304 response, or null if the badge has to be sent
+ */
+export function notModified(
+  request: NextRequest,
+  badge: UVBadge,
+  format: BadgeFormat
+): NextResponse | null {
+  const headers = getBadgeHeaders(badge, format);
+  if (request.headers.get("if-none-match") !== headers.ETag) return null;
+
+  return new NextResponse(null, { status: 304, headers });
+}
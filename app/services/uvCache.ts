@@ -0,0 +1,166 @@
+// UV Response Cache
+// In-process cache in front of the UV providers. Coordinates are rounded to a
+// grid and time is split into TTL-sized buckets so nearby lookups within the
+// same period share one upstream request
+
+import {
+  ForecastOptions,
+  LocationData,
+  UVData,
+  UVProviderId,
+} from "./types";
+
+// A cached value with its absolute expiry time in milliseconds
+export interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// Storage backend for the cache, async so a networked store can be plugged in
+export interface CacheStore<T> {
+  get(key: string): Promise<CacheEntry<T> | undefined>;
+  set(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Hit/miss counters for monitoring quota savings
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  // Lookups that joined a request already in flight for the same key
+  deduplicated: number;
+}
+
+export interface UVCacheOptions {
+  store?: CacheStore<UVData>;
+  // Grid size in degrees that coordinates are rounded to
+  gridSize?: number;
+  // TTL per provider in milliseconds, falling back to defaultTtlMs
+  ttlFor?: (provider: UVProviderId) => number | undefined;
+  defaultTtlMs?: number;
+  // Clock, injectable for tests
+  now?: () => number;
+}
+
+export interface UVCache {
+  // Return the cached value for the provider, location and forecast window,
+  // loading it on a miss
+  get(
+    provider: UVProviderId,
+    location: LocationData,
+    options: ForecastOptions,
+    load: (location: LocationData, options: ForecastOptions) => Promise<UVData>
+  ): Promise<UVData>;
+  stats(): CacheStats;
+  clear(): Promise<void>;
+}
+
+const DEFAULT_GRID_SIZE = 0.01;
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Create an in-memory cache store backed by a Map
+ * @param now Clock used to drop expired entries
+ */
+export function createMemoryCacheStore<T>(
+  now: () => number = Date.now
+): CacheStore<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry && entry.expiresAt <= now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      entries.set(key, entry);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * Round a location to the nearest point on the cache grid
+ * @param location Location data with latitude and longitude
+ * @param gridSize Grid size in degrees
+ * @returns The snapped location
+ */
+export function snapToGrid(
+  location: LocationData,
+  gridSize: number
+): LocationData {
+  // Work in grid units and trim float noise so equal cells give equal keys
+  const snap = (value: number) =>
+    Number((Math.round(value / gridSize) * gridSize).toFixed(6));
+
+  return { ...location, lat: snap(location.lat), lng: snap(location.lng) };
+}
+
+/**
+ * Create a UV cache
+ * @param options Store, grid and TTL configuration
+ */
+export function createUVCache(options: UVCacheOptions = {}): UVCache {
+  const now = options.now ?? Date.now;
+  const store = options.store ?? createMemoryCacheStore<UVData>(now);
+  const gridSize = options.gridSize ?? DEFAULT_GRID_SIZE;
+  const defaultTtlMs = options.defaultTtlMs ?? DEFAULT_TTL_MS;
+  const inFlight = new Map<string, Promise<UVData>>();
+  const counters = { hits: 0, misses: 0, deduplicated: 0 };
+
+  const ttlFor = (provider: UVProviderId) =>
+    options.ttlFor?.(provider) ?? defaultTtlMs;
+
+  return {
+    async get(provider, location, options, load) {
+      const ttl = ttlFor(provider);
+      const cell = snapToGrid(location, gridSize);
+      const bucket = Math.floor(now() / ttl);
+      const window = `${options.days}d${options.intervalMinutes}m`;
+      const point = `${cell.lat},${cell.lng}${
+        cell.altitude !== undefined ? `,${Math.round(cell.altitude)}` : ""
+      }`;
+      const key = `${provider}:${point}:${window}:${bucket}`;
+
+      const cached = await store.get(key);
+      if (cached) {
+        counters.hits++;
+        return cached.value;
+      }
+
+      const pending = inFlight.get(key);
+      if (pending) {
+        counters.deduplicated++;
+        return pending;
+      }
+
+      counters.misses++;
+      const request = load(cell, options)
+        .then(async (value) => {
+          await store.set(key, { value, expiresAt: (bucket + 1) * ttl });
+          return value;
+        })
+        .finally(() => inFlight.delete(key));
+
+      inFlight.set(key, request);
+      return request;
+    },
+    stats() {
+      return { ...counters };
+    },
+    async clear() {
+      inFlight.clear();
+      await store.clear();
+    },
+  };
+}
@@ -0,0 +1,189 @@
+// UV Service Errors
+// Typed failures for the UV services, so callers can tell a missing reading
+// apart from a bad one and show a specific message for each
+
+import { DEFAULT_LOCALE, Locale, translate } from "./i18n";
+import { UVError, UVErrorKind, UVProviderId } from "./types";
+
+// Highest UV index accepted from a provider; readings above this are treated
+// as corrupt rather than shown to users
+export const MAX_PLAUSIBLE_UV_INDEX = 25;
+
+/**
+ * Error thrown by the UV services, carrying a UVError description
+ */
+export class UVServiceError extends Error {
+  readonly kind: UVErrorKind;
+  readonly provider?: UVProviderId;
+  readonly status?: number;
+
+  constructor(error: UVError) {
+    super(error.message);
+    this.name = "UVServiceError";
+    this.kind = error.kind;
+    this.provider = error.provider;
+    this.status = error.status;
+  }
+
+  toJSON(): UVError {
+    return {
+      kind: this.kind,
+      message: this.message,
+      provider: this.provider,
+      status: this.status,
+    };
+  }
+}
+
+/**
+ * Create the error for a non-2xx upstream response
+ * @param status HTTP status code
+ * @param provider Provider that responded
+ */
+export function errorForStatus(
+  status: number,
+  provider: UVProviderId
+): UVServiceError {
+  if (status === 401 || status === 403) {
+    return new UVServiceError({
+      kind: "auth",
+      message: `Authentication failed (${status})`,
+      provider,
+      status,
+    });
+  }
+
+  if (status === 429) {
+    return new UVServiceError({
+      kind: "rate-limited",
+      message: "Rate limit exceeded",
+      provider,
+      status,
+    });
+  }
+
+  return new UVServiceError({
+    kind: "upstream",
+    message: `Error fetching UV index: ${status}`,
+    provider,
+    status,
+  });
+}
+
+/**
+ * Create the error for a payload that does not have the expected shape
+ * @param provider Provider that sent the payload
+ * @param detail What was wrong with it
+ */
+export function malformedPayload(
+  provider: UVProviderId,
+  detail: string
+): UVServiceError {
+  return new UVServiceError({
+    kind: "malformed",
+    message: `Unexpected response: ${detail}`,
+    provider,
+  });
+}
+
+/**
+ * Check that a value from a provider is a plausible UV index
+ * @param value The value to check
+ * @param provider Provider that sent it
+ * @returns The value, now known to be a number
+ */
+export function assertUVIndex(value: unknown, provider: UVProviderId): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw malformedPayload(provider, `UV index ${JSON.stringify(value)} is not a number`);
+  }
+
+  if (value < 0 || value > MAX_PLAUSIBLE_UV_INDEX) {
+    throw new UVServiceError({
+      kind: "out-of-range",
+      message: `UV index ${value} is outside 0–${MAX_PLAUSIBLE_UV_INDEX}`,
+      provider,
+    });
+  }
+
+  return value;
+}
+
+/**
+ * Check that a value from a provider is a parseable timestamp
+ * @param value The value to check
+ * @param provider Provider that sent it
+ * @returns The timestamp string
+ */
+export function assertTimestamp(value: unknown, provider: UVProviderId): string {
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+    throw malformedPayload(provider, `time ${JSON.stringify(value)} is not a timestamp`);
+  }
+
+  return value;
+}
+
+/**
+ * Describe any thrown value as a UVError
+ * @param error The thrown value
+ * @param provider Provider being queried when it was thrown, if any
+ */
+export function toUVError(error: unknown, provider?: UVProviderId): UVError {
+  if (error instanceof UVServiceError) {
+    return error.toJSON();
+  }
+
+  // GeolocationPositionError is not available outside the browser, so check
+  // the code: 1 is PERMISSION_DENIED, 2 and 3 mean no position was found
+  const code = (error as { code?: number } | null)?.code;
+  if (code === 1) {
+    return { kind: "geolocation-denied", message: "Location access was denied" };
+  }
+  if (code === 2 || code === 3) {
+    return {
+      kind: "geolocation-unavailable",
+      message: "Your location could not be determined",
+    };
+  }
+
+  // fetch rejects with a TypeError when the request never completes
+  if (error instanceof TypeError || (error as Error)?.name === "AbortError") {
+    return { kind: "network", message: (error as Error).message, provider };
+  }
+
+  // response.json() rejects with a SyntaxError on a non-JSON body
+  if (error instanceof SyntaxError) {
+    return {
+      kind: "malformed",
+      message: "Response was not valid JSON",
+      provider,
+    };
+  }
+
+  return {
+    kind: "upstream",
+    message: error instanceof Error ? error.message : String(error),
+    provider,
+  };
+}
+
+/**
+ * Get a user-facing title and explanation for an error
+ * @param error The error to describe
+ * @param locale Language of the description
+ */
+export function describeUVError(
+  error: UVError,
+  locale: Locale = DEFAULT_LOCALE
+): {
+  title: string;
+  message: string;
+} {
+  if (error.kind === "upstream") {
+    return { title: translate(locale, "error.title"), message: error.message };
+  }
+
+  return {
+    title: translate(locale, `error.${error.kind}.title`),
+    message: translate(locale, `error.${error.kind}.message`),
+  };
+}
@@ -0,0 +1,367 @@
+// UV Forecast Utilities
+// Forecast window options and per-calendar-day summaries of hourly forecasts
+
+import { DailyUVSummary, ForecastOptions, HourlyUVData } from "./types";
+import { UV_SEVERITY_THRESHOLDS } from "./uvSeverity";
+
+export const MIN_FORECAST_DAYS = 1;
+export const MAX_FORECAST_DAYS = 7;
+
+// Sample intervals the providers can be asked for, in minutes
+export const FORECAST_INTERVALS = [15, 30, 60, 120, 180];
+
+export const DEFAULT_FORECAST_OPTIONS: ForecastOptions = {
+  days: 1,
+  intervalMinutes: 60,
+};
+
+/**
+ * Check that forecast options are within the supported range
+ * @param options Requested horizon and interval
+ * @returns An error message, or null if the options are valid
+ */
+export function validateForecastOptions(options: ForecastOptions): string | null {
+  const { days, intervalMinutes } = options;
+
+  if (
+    !Number.isInteger(days) ||
+    days < MIN_FORECAST_DAYS ||
+    days > MAX_FORECAST_DAYS
+  ) {
+    return `days must be an integer from ${MIN_FORECAST_DAYS} to ${MAX_FORECAST_DAYS}`;
+  }
+
+  if (!FORECAST_INTERVALS.includes(intervalMinutes)) {
+    return `interval must be one of ${FORECAST_INTERVALS.join(", ")} minutes`;
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a string is a time zone the runtime knows
+ * @param timeZone IANA time zone name, e.g. "Europe/Stockholm"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the local calendar date of a time in a time zone
+ * @param time ISO timestamp
+ * @param timeZone IANA time zone name
+ * @returns The date formatted as YYYY-MM-DD
+ */
+export function getLocalDate(time: string, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(time));
+}
+
+/**
+ * Get the local date and time of a time in a time zone, with its UTC offset
+ * @param time ISO timestamp
+ * @param timeZone IANA time zone name
+ * @returns The time formatted as YYYY-MM-DDTHH:mm:ss±HH:mm
+ */
+export function getLocalTimestamp(time: string, timeZone: string): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+      timeZoneName: "longOffset",
+    })
+      .formatToParts(new Date(time))
+      .map(({ type, value }) => [type, value])
+  );
+  // longOffset reads "GMT+02:00", or plain "GMT" at UTC
+  const offset = parts.timeZoneName.replace("GMT", "") || "+00:00";
+
+  return (
+    `${parts.year}-${parts.month}-${parts.day}` +
+    `T${parts.hour}:${parts.minute}:${parts.second}${offset}`
+  );
+}
+
+/**
+ * Get the spacing between forecast samples
+ * @param forecast Forecast samples in chronological order
+ * @returns The spacing in milliseconds, one hour if it cannot be told
+ */
+export function getSampleIntervalMs(forecast: HourlyUVData[]): number {
+  const spacing =
+    forecast.length > 1
+      ? new Date(forecast[1].time).getTime() -
+        new Date(forecast[0].time).getTime()
+      : 0;
+
+  return spacing > 0 ? spacing : 60 * 60 * 1000;
+}
+
+/**
+ * Group a forecast into local calendar days and summarize each day
+ * @param forecast Forecast samples in chronological order
+ * @param timeZone IANA time zone the days are counted in
+ * @returns One summary per calendar day, in chronological order
+ */
+export function summarizeByDay(
+  forecast: HourlyUVData[],
+  timeZone: string
+): DailyUVSummary[] {
+  if (forecast.length === 0) {
+    return [];
+  }
+
+  // Each sample stands for the time until the next one
+  const sampleHours = getSampleIntervalMs(forecast) / (60 * 60 * 1000);
+
+  const days = new Map<string, HourlyUVData[]>();
+  for (const sample of forecast) {
+    const date = getLocalDate(sample.time, timeZone);
+    const samples = days.get(date) ?? [];
+    samples.push(sample);
+    days.set(date, samples);
+  }
+
+  return Array.from(days, ([date, samples]) => {
+    const peak = samples.reduce((prev, current) =>
+      prev.uvIndex > current.uvIndex ? prev : current
+    );
+
+    const hoursAbove: Record<string, number> = {};
+    for (const [level, threshold] of Object.entries(UV_SEVERITY_THRESHOLDS)) {
+      hoursAbove[level] =
+        samples.filter((sample) => sample.uvIndex >= threshold).length *
+        sampleHours;
+    }
+
+    return {
+      date,
+      maxUvIndex: peak.uvIndex,
+      maxUvTime: peak.time,
+      hoursAbove,
+    };
+  });
+}
+
+/**
+ * Estimate the UV index at a moment by linear interpolation between samples
+ * @param forecast Forecast samples in chronological order
+ * @param time Moment to estimate, in milliseconds since the epoch
+ * @returns The estimated UV index, or null if the moment is outside the forecast
+ */
+export function interpolateUVIndex(
+  forecast: HourlyUVData[],
+  time: number
+): number | null {
+  for (let i = 0; i < forecast.length; i++) {
+    const sampleTime = new Date(forecast[i].time).getTime();
+
+    if (sampleTime === time) {
+      return forecast[i].uvIndex;
+    }
+
+    if (sampleTime > time) {
+      if (i === 0) return null;
+
+      const previousTime = new Date(forecast[i - 1].time).getTime();
+      const fraction = (time - previousTime) / (sampleTime - previousTime);
+      return (
+        forecast[i - 1].uvIndex +
+        fraction * (forecast[i].uvIndex - forecast[i - 1].uvIndex)
+      );
+    }
+  }
+
+  return null;
+}
+
+// A forecast prepared for exposure sums: the sample times parsed once and the
+// UV index accumulated over time, so a dose over any period takes a binary
+// search rather than a walk through the forecast
+export interface UVExposure {
+  // Sample times in milliseconds since the epoch
+  times: number[];
+  // UV index of each sample, negative values taken as zero
+  uvIndex: number[];
+  // UV index × minutes from the first sample up to each sample
+  cumulative: number[];
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Prepare a forecast for exposure sums
+ * UV is taken to change linearly between samples, as in interpolateUVIndex
+ * @param forecast Forecast samples in chronological order
+ */
+export function createUVExposure(forecast: HourlyUVData[]): UVExposure {
+  const times = forecast.map((sample) => new Date(sample.time).getTime());
+  const uvIndex = forecast.map((sample) => Math.max(0, sample.uvIndex));
+  const cumulative = times.length > 0 ? [0] : [];
+
+  for (let i = 1; i < times.length; i++) {
+    const minutes = (times[i] - times[i - 1]) / MINUTE_MS;
+    cumulative.push(
+      cumulative[i - 1] + ((uvIndex[i - 1] + uvIndex[i]) / 2) * minutes
+    );
+  }
+
+  return { times, uvIndex, cumulative };
+}
+
+// Index of the segment starting at or before a time, or -1 if the time is
+// outside the forecast; the last sample counts as the end of the last segment
+const findSegment = ({ times }: UVExposure, time: number) => {
+  if (times.length === 0 || time < times[0] || time > times[times.length - 1]) {
+    return -1;
+  }
+
+  let low = 0;
+  let high = times.length - 1;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (times[middle] <= time) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+// UV index at a time within a segment
+const uvIndexAt = (exposure: UVExposure, segment: number, time: number) => {
+  const { times, uvIndex } = exposure;
+  if (segment === times.length - 1) return uvIndex[segment];
+
+  const fraction =
+    (time - times[segment]) / (times[segment + 1] - times[segment]);
+  return (
+    uvIndex[segment] + fraction * (uvIndex[segment + 1] - uvIndex[segment])
+  );
+};
+
+// UV index × minutes from the first sample up to a time, or null outside
+const exposureUntil = (exposure: UVExposure, time: number) => {
+  const segment = findSegment(exposure, time);
+  if (segment === -1) return null;
+
+  const minutes = (time - exposure.times[segment]) / MINUTE_MS;
+  const average =
+    (exposure.uvIndex[segment] + uvIndexAt(exposure, segment, time)) / 2;
+  return exposure.cumulative[segment] + average * minutes;
+};
+
+/**
+ * Sum the UV index over a period
+ * @param exposure Forecast prepared with createUVExposure
+ * @param from Start of the period, in milliseconds since the epoch
+ * @param to End of the period, in milliseconds since the epoch
+ * @returns UV index × minutes, or null if the period is not covered by the
+ * forecast
+ */
+export function getUVExposure(
+  exposure: UVExposure,
+  from: number,
+  to: number
+): number | null {
+  const start = exposureUntil(exposure, from);
+  const end = exposureUntil(exposure, to);
+  return start === null || end === null ? null : end - start;
+}
+
+/**
+ * Find when the UV index summed from a time reaches an amount
+ * @param exposure Forecast prepared with createUVExposure
+ * @param from Start of the sum, in milliseconds since the epoch
+ * @param amount UV index × minutes to reach
+ * @param until Latest time to search up to, in milliseconds since the epoch
+ * @returns The time in milliseconds, or null if the amount is not reached
+ * by until or the end of the forecast
+ */
+export function findUVExposureTime(
+  exposure: UVExposure,
+  from: number,
+  amount: number,
+  until: number = Infinity
+): number | null {
+  const start = exposureUntil(exposure, from);
+  if (start === null) return null;
+  if (amount <= 0) return from;
+
+  const { times, uvIndex, cumulative } = exposure;
+  const target = start + amount;
+  if (cumulative[cumulative.length - 1] < target) return null;
+
+  // First sample by which the target is reached; the target lies in the
+  // segment before it
+  let low = findSegment(exposure, from);
+  let high = cumulative.length - 1;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (cumulative[middle] >= target) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+
+  // Within the segment UV changes linearly, u(t) = a + b t with t in
+  // minutes, so the sum a t + b t² / 2 is solved for the remainder
+  const segmentStart = Math.max(from, times[low]);
+  const a = uvIndexAt(exposure, low, segmentStart);
+  const b =
+    ((uvIndex[high] - uvIndex[low]) / (times[high] - times[low])) * MINUTE_MS;
+  const remainder = target - (exposureUntil(exposure, segmentStart) ?? 0);
+  const minutes =
+    remainder <= 0
+      ? 0
+      : Math.abs(b) < 1e-12
+      ? remainder / a
+      : (-a + Math.sqrt(Math.max(0, a * a + 2 * b * remainder))) / b;
+
+  const time = segmentStart + minutes * MINUTE_MS;
+  return time <= until ? time : null;
+}
+
+/**
+ * Find the highest UV index over a period
+ * @param exposure Forecast prepared with createUVExposure
+ * @param from Start of the period, in milliseconds since the epoch
+ * @param to End of the period, in milliseconds since the epoch
+ * @returns The peak, or null if the period is not covered by the forecast
+ */
+export function getPeakUVIndex(
+  exposure: UVExposure,
+  from: number,
+  to: number
+): number | null {
+  const first = findSegment(exposure, from);
+  const last = findSegment(exposure, to);
+  if (first === -1 || last === -1) return null;
+
+  let peak = Math.max(
+    uvIndexAt(exposure, first, from),
+    uvIndexAt(exposure, last, to)
+  );
+  for (let i = first + 1; i <= last; i++) {
+    peak = Math.max(peak, exposure.uvIndex[i]);
+  }
+  return peak;
+}
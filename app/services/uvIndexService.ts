@@ -1,6 +1,28 @@
 // UV Index API Service
 // This service connects to the free UV index API to fetch current and forecast UV data
 
+import { UpstreamClient, fetchWithRetry } from "./httpClient";
+import { placeToLocation } from "./locationService";
+import { PLACES } from "./places";
+import {
+  ForecastOptions,
+  LocationData,
+  UVData,
+  UVProvider,
+  findMaxUV,
+} from "./types";
+import {
+  assertTimestamp,
+  assertUVIndex,
+  errorForStatus,
+  malformedPayload,
+} from "./uvErrors";
+import { DEFAULT_FORECAST_OPTIONS } from "./uvForecast";
+
+export type { LocationData } from "./types";
+export { getUserLocation } from "./locationService";
+export { getUVSeverity } from "./uvSeverity";
+
 // Define TypeScript interfaces for the API response
 export interface UVIndexApiResponse {
   ok: boolean;
@@ -16,29 +38,106 @@ export interface UVIndexApiResponse {
   }[];
 }
 
-// Interface for our processed UV data, similar to the existing Meteomatics interface for compatibility
-export interface UVIndexData {
-  uvIndex: number;
-  timestamp: string;
-  maxUvIndex?: number;
-  maxUvTime?: string;
-  hourlyForecast?: {
-    time: string;
-    uvIndex: number;
-  }[];
-  source: string;
-  latitude: number;
-  longitude: number;
-}
+// Processed UV data, kept as an alias of the normalized shape for existing callers
+export type UVIndexData = UVData;
 
-// Location data interface, reused from the existing implementation
-export interface LocationData {
-  lat: number;
-  lng: number;
-  address?: string;
+/**
+ * Validate a response from the free API
+ * @param response The parsed JSON body
+ * @returns The response, now known to have the expected shape
+ */
+export function parseUVIndexApiResponse(response: unknown): UVIndexApiResponse {
+  const data = response as Partial<UVIndexApiResponse> | null;
+  
+  // Check if the API returned a successful response
+  if (!data || data.ok !== true) {
+    throw malformedPayload("currentuvindex", "API returned an error response");
+  }
+  
+  if (!data.now || !Array.isArray(data.forecast)) {
+    throw malformedPayload("currentuvindex", "missing now or forecast");
+  }
+  
+  const validate = (item: { time: unknown; uvi: unknown }) => ({
+    time: assertTimestamp(item?.time, "currentuvindex"),
+    uvi: assertUVIndex(item?.uvi, "currentuvindex")
+  });
+  
+  return {
+    ok: true,
+    latitude: Number(data.latitude),
+    longitude: Number(data.longitude),
+    now: validate(data.now),
+    forecast: data.forecast.map(validate)
+  };
 }
 
-const API_BASE_URL = "https://corsproxy.io/?https://currentuvindex.com/api/v1/uvi";
+const API_BASE_URL = "https://currentuvindex.com/api/v1/uvi";
+
+/**
+ * Fetch UV Index data from the free API, throwing on failure
+ * The API only serves hourly data, so finer intervals return hourly samples
+ * @param location Location data with latitude and longitude
+ * @param options Forecast horizon and interval
+ * @param client Base URL, clock and request settings, replaced in tests
+ * @returns Processed UV index data
+ */
+export async function fetchUVIndexData(
+  location: LocationData,
+  options: ForecastOptions = DEFAULT_FORECAST_OPTIONS,
+  client: UpstreamClient = {}
+): Promise<UVIndexData> {
+  // Build the URL with the location parameters
+  const url = `${client.baseUrl ?? API_BASE_URL}?latitude=${location.lat}&longitude=${location.lng}`;
+  
+  // Fetch data from the API; this runs server-side from the /api/uv route,
+  // so no CORS proxy is needed
+  const response = await fetchWithRetry(url, { 
+    cache: "no-store", // Ensure we get fresh data
+    provider: "currentuvindex",
+    ...client.request
+  });
+  
+  // Check if the request was successful
+  if (!response.ok) {
+    // Cancelling the unread body releases the request timer
+    await response.body?.cancel();
+    throw errorForStatus(response.status, "currentuvindex");
+  }
+  
+  // Parse and validate the response
+  const data = parseUVIndexApiResponse(await response.json());
+  
+  // Keep the samples inside the requested horizon, thinned out to the interval
+  const now = client.now?.() ?? Date.now();
+  const horizonEnd = now + options.days * 24 * 60 * 60 * 1000;
+  const step = Math.max(1, Math.round(options.intervalMinutes / 60));
+  
+  // Process the forecast data to match our internal format
+  const hourlyForecast = data.forecast
+    .filter(item => new Date(item.time).getTime() <= horizonEnd)
+    .filter((_, index) => index % step === 0)
+    .map(item => ({
+      time: item.time,
+      uvIndex: item.uvi
+    }));
+  
+  // Find the maximum UV index from the forecast data
+  const { maxUvIndex, maxUvTime } = findMaxUV(hourlyForecast);
+  
+  // Return the processed data
+  return {
+    uvIndex: data.now.uvi,
+    timestamp: data.now.time,
+    maxUvIndex,
+    maxUvTime,
+    hourlyForecast,
+    source: "Current UV Index API",
+    provider: "currentuvindex",
+    latitude: data.latitude,
+    longitude: data.longitude
+  };
+}
 
 /**
  * Get UV Index data from the free API
@@ -47,113 +146,32 @@ const API_BASE_URL = "https://corsproxy.io/?https://currentuvindex.com/api/v1/uv
  */
 export async function getUVIndexData(location: LocationData): Promise<UVIndexData | null> {
   try {
-    // Build the URL with the location parameters
-    const url = `${API_BASE_URL}?latitude=${location.lat}&longitude=${location.lng}`;
-    
-    // Fetch data from the API
-    const response = await fetch(url, { 
-      cache: "no-store" // Ensure we get fresh data
-    });
-    
-    // Check if the request was successful
-    if (!response.ok) {
-      throw new Error(`Error fetching UV index: ${response.status}`);
-    }
-    
-    // Parse the response
-    const data: UVIndexApiResponse = await response.json();
-    
-    // Check if the API returned a successful response
-    if (!data.ok) {
-      throw new Error("API returned an error response");
-    }
-    
-    // Process the forecast data to match our internal format
-    const hourlyForecast = data.forecast.map(item => ({
-      time: item.time,
-      uvIndex: item.uvi
-    }));
-    
-    // Find the maximum UV index from the forecast data
-    let maxUvIndex: number | undefined;
-    let maxUvTime: string | undefined;
-    
-    if (hourlyForecast.length > 0) {
-      const maxUvEntry = hourlyForecast.reduce((prev, current) =>
-        prev.uvIndex > current.uvIndex ? prev : current
-      );
-      
-      maxUvIndex = maxUvEntry.uvIndex;
-      maxUvTime = maxUvEntry.time;
-    }
-    
-    // Return the processed data
-    return {
-      uvIndex: data.now.uvi,
-      timestamp: data.now.time,
-      maxUvIndex,
-      maxUvTime,
-      hourlyForecast,
-      source: "Current UV Index API",
-      latitude: data.latitude,
-      longitude: data.longitude
-    };
-    
+    return await fetchUVIndexData(location);
   } catch (error) {
     console.error("Failed to fetch UV index data:", error);
     return null;
   }
 }
 
-/**
- * Get user's current geolocation
- * @returns Promise resolving to the user's location
- */
-export function getUserLocation(): Promise<LocationData> {
-  return new Promise((resolve, reject) => {
-    if (!navigator.geolocation) {
-      reject(new Error("Geolocation is not supported by your browser"));
-      return;
-    }
-    
-    navigator.geolocation.getCurrentPosition(
-      (position) => {
-        resolve({
-          lat: position.coords.latitude,
-          lng: position.coords.longitude,
-        });
-      },
-      (error) => {
-        reject(error);
-      }
-    );
-  });
-}
+// Provider registration for the free API, which needs no credentials
+export const currentUvIndexProvider: UVProvider = {
+  id: "currentuvindex",
+  name: "Current UV Index",
+  cacheTtlMs: 10 * 60 * 1000,
+  isConfigured: () => true,
+  fetchUVData: fetchUVIndexData
+};
 
 /**
  * Get coordinates for predefined Swedish cities
+ * @deprecated Use searchPlaces from locationService, which does not fall back silently
  * @param city The name of the city
  * @returns Location data for the requested city
  */
 export function getCityCoordinates(city: string): LocationData {
-  const cities: Record<string, LocationData> = {
-    "Gothenburg": { lat: 57.7089, lng: 11.9746, address: "Gothenburg, Sweden" },
-    "Stockholm": { lat: 59.3293, lng: 18.0686, address: "Stockholm, Sweden" },
-    "Malmö": { lat: 55.6050, lng: 13.0038, address: "Malmö, Sweden" }
-  };
+  const place =
+    PLACES.find((candidate) => candidate.name === city) ??
+    PLACES.find((candidate) => candidate.name === "Stockholm")!;
   
-  return cities[city] || cities["Stockholm"]; // Default to Stockholm if city not found
+  return placeToLocation(place); // Default to Stockholm if city not found
 }
-
-/**
- * Utility function to get the severity level of a UV index
- * @param uvIndex The UV index value
- * @returns Object with severity level and color
- */
-export function getUVSeverity(uvIndex: number): { level: string; color: string } {
-  if (uvIndex < 3) return { level: "Low", color: "bg-green-500" };
-  if (uvIndex < 6) return { level: "Moderate", color: "bg-yellow-500" };
-  if (uvIndex < 8) return { level: "High", color: "bg-orange-500" };
-  if (uvIndex < 11) return { level: "Very High", color: "bg-red-500" };
-  return { level: "Extreme", color: "bg-purple-600" };
-}
\ No newline at end of file
@@ -0,0 +1,186 @@
+// UV Provider Registry
+// Keeps track of the available UV providers and queries them in priority order,
+// falling back to the next provider when one is unconfigured or fails
+
+import { meteomaticsProvider } from "./meteomaticsService";
+import { solarEstimateProvider } from "./solarEstimateService";
+import { UVCache, createUVCache } from "./uvCache";
+import { toUVError } from "./uvErrors";
+import {
+  ForecastOptions,
+  LocationData,
+  ProviderAttempt,
+  UVDataResult,
+  UVProvider,
+  UVProviderId,
+} from "./types";
+import { DEFAULT_FORECAST_OPTIONS, summarizeByDay } from "./uvForecast";
+import { currentUvIndexProvider } from "./uvIndexService";
+
+// Options for a lookup through the priority chain
+export interface GetUVDataOptions {
+  // Provider ids in the order they should be tried
+  priority?: UVProviderId[];
+  // Forecast horizon and interval
+  forecast?: ForecastOptions;
+  // Time zone to summarize the forecast into calendar days in
+  timeZone?: string;
+  // Response cache to read through
+  cache?: UVCache;
+}
+
+// Order used when no priority is configured. The offline estimate comes last
+// so there is always something to show
+export const DEFAULT_PROVIDER_PRIORITY: UVProviderId[] = [
+  "meteomatics",
+  "currentuvindex",
+  "estimate",
+];
+
+const providers = new Map<UVProviderId, UVProvider>();
+
+// Shared response cache in front of every provider. The grid size in degrees
+// can be tuned with UV_CACHE_GRID_SIZE
+export const uvCache: UVCache = createUVCache({
+  gridSize: Number(process.env.UV_CACHE_GRID_SIZE) || undefined,
+  ttlFor: (id) => providers.get(id)?.cacheTtlMs,
+});
+
+/**
+ * Register a provider, replacing any provider with the same id
+ * @param provider The provider to register
+ */
+export function registerUVProvider(provider: UVProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Look up a registered provider
+ * @param id The provider id
+ * @returns The provider, or undefined if it is not registered
+ */
+export function getUVProvider(id: UVProviderId): UVProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * List all registered providers in registration order
+ */
+export function getRegisteredUVProviders(): UVProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Get the configured provider priority chain
+ * Reads a comma-separated list of provider ids from
+ * UV_PROVIDER_PRIORITY, ignoring unknown ids
+ * @returns Provider ids in the order they should be tried
+ */
+export function getProviderPriority(): UVProviderId[] {
+  const configured = (process.env.UV_PROVIDER_PRIORITY || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id): id is UVProviderId => providers.has(id as UVProviderId));
+
+  return configured.length > 0 ? configured : DEFAULT_PROVIDER_PRIORITY;
+}
+
+/**
+ * Get UV data from the first provider in the chain that answers
+ * When a time zone is given the forecast is summarized per calendar day and
+ * the max UV fields describe the first (current) day instead of the whole window
+ * @param location Location data with latitude and longitude
+ * @param options Priority chain, forecast window, time zone and cache
+ * @returns The data with the provider that answered, plus the failed attempts
+ */
+export async function getUVData(
+  location: LocationData,
+  options: GetUVDataOptions = {}
+): Promise<UVDataResult> {
+  const {
+    priority = getProviderPriority(),
+    forecast = DEFAULT_FORECAST_OPTIONS,
+    timeZone,
+    cache = uvCache,
+  } = options;
+  const attempts: ProviderAttempt[] = [];
+
+  for (const id of priority) {
+    const provider = providers.get(id);
+
+    if (!provider) {
+      attempts.push({
+        provider: id,
+        error: {
+          kind: "not-configured",
+          message: "Provider is not registered",
+          provider: id,
+        },
+      });
+      continue;
+    }
+
+    if (!provider.isConfigured()) {
+      attempts.push({
+        provider: id,
+        error: {
+          kind: "not-configured",
+          message: "Provider is not configured",
+          provider: id,
+        },
+      });
+      continue;
+    }
+
+    try {
+      const data = await cache.get(
+        id,
+        location,
+        forecast,
+        provider.fetchUVData
+      );
+
+      if (!timeZone) {
+        return { data, provider: id, attempts };
+      }
+
+      // Copy rather than mutate, the cached object is shared
+      const daily = summarizeByDay(data.hourlyForecast ?? [], timeZone);
+      return {
+        data: {
+          ...data,
+          daily,
+          timeZone,
+          maxUvIndex: daily[0]?.maxUvIndex ?? data.maxUvIndex,
+          maxUvTime: daily[0]?.maxUvTime ?? data.maxUvTime,
+        },
+        provider: id,
+        attempts,
+      };
+    } catch (error) {
+      console.error(`UV provider "${id}" failed:`, error);
+      attempts.push({ provider: id, error: toUVError(error, id) });
+    }
+  }
+
+  // Report the first real failure; unconfigured providers only explain
+  // the outcome when nothing else was tried
+  const failure =
+    attempts.find(({ error }) => error.kind !== "not-configured") ??
+    attempts[0];
+
+  return {
+    data: null,
+    provider: null,
+    attempts,
+    error: failure?.error ?? {
+      kind: "not-configured",
+      message: "No UV providers in the priority chain",
+    },
+  };
+}
+
+// Built-in providers
+registerUVProvider(meteomaticsProvider);
+registerUVProvider(currentUvIndexProvider);
+registerUVProvider(solarEstimateProvider);
@@ -0,0 +1,224 @@
+// UV Severity Scale
+// The WHO UV index categories as data, with their colours, icons and
+// protective actions, and alternative palettes for displaying them
+
+import { DEFAULT_LOCALE, Locale, MessageKey, translate } from "./i18n";
+
+export type UVSeverityLevel =
+  | "Low"
+  | "Moderate"
+  | "High"
+  | "Very High"
+  | "Extreme";
+
+// Protective actions recommended by the WHO
+export type ProtectiveAction =
+  | "none"
+  | "shade"
+  | "clothing"
+  | "hat"
+  | "sunglasses"
+  | "sunscreen"
+  | "avoid-midday";
+
+// One category of the scale
+export interface UVSeverityBand {
+  level: UVSeverityLevel;
+  // Lowest UV index in the category
+  min: number;
+  // Start of the next category, null for the open-ended top one
+  max: number | null;
+  icon: string;
+  actions: ProtectiveAction[];
+}
+
+// Colours of one category in a palette
+export interface SeverityColors {
+  // Background, e.g. of the reading badge or chart band
+  fill: string;
+  // Text drawn on top of the fill
+  text: string;
+}
+
+export type SeverityPaletteId = "who" | "colorblind";
+
+export interface SeverityPalette {
+  id: SeverityPaletteId;
+  colors: Record<UVSeverityLevel, SeverityColors>;
+}
+
+// Everything needed to show a reading's category
+export interface UVSeverity extends UVSeverityBand {
+  // Level name and advice in the requested language
+  label: string;
+  advice: string;
+  colors: SeverityColors;
+}
+
+// The WHO Global Solar UV Index categories, lowest first
+export const UV_SEVERITY_SCALE: UVSeverityBand[] = [
+  { level: "Low", min: 0, max: 3, icon: "🙂", actions: ["none"] },
+  {
+    level: "Moderate",
+    min: 3,
+    max: 6,
+    icon: "🧴",
+    actions: ["shade", "clothing", "hat", "sunglasses", "sunscreen"],
+  },
+  {
+    level: "High",
+    min: 6,
+    max: 8,
+    icon: "🧢",
+    actions: ["shade", "clothing", "hat", "sunglasses", "sunscreen"],
+  },
+  {
+    level: "Very High",
+    min: 8,
+    max: 11,
+    icon: "⛱️",
+    actions: [
+      "avoid-midday",
+      "shade",
+      "clothing",
+      "hat",
+      "sunglasses",
+      "sunscreen",
+    ],
+  },
+  {
+    level: "Extreme",
+    min: 11,
+    max: null,
+    icon: "🏠",
+    actions: [
+      "avoid-midday",
+      "shade",
+      "clothing",
+      "hat",
+      "sunglasses",
+      "sunscreen",
+    ],
+  },
+];
+
+// Lower bounds of the levels above Low, e.g. for counting hours at or above
+export const UV_SEVERITY_THRESHOLDS = Object.fromEntries(
+  UV_SEVERITY_SCALE.slice(1).map(({ level, min }) => [level, min])
+) as Record<Exclude<UVSeverityLevel, "Low">, number>;
+
+export const SEVERITY_PALETTES: Record<SeverityPaletteId, SeverityPalette> = {
+  // The official colours of the WHO scale
+  who: {
+    id: "who",
+    colors: {
+      Low: { fill: "#289500", text: "#ffffff" },
+      Moderate: { fill: "#f7e400", text: "#000000" },
+      High: { fill: "#f85900", text: "#ffffff" },
+      "Very High": { fill: "#d8001d", text: "#ffffff" },
+      Extreme: { fill: "#6b49c8", text: "#ffffff" },
+    },
+  },
+  // Okabe-Ito colours, which stay distinct with the common forms of colour
+  // blindness and still run from cool to warm
+  colorblind: {
+    id: "colorblind",
+    colors: {
+      Low: { fill: "#56b4e9", text: "#000000" },
+      Moderate: { fill: "#f0e442", text: "#000000" },
+      High: { fill: "#e69f00", text: "#000000" },
+      "Very High": { fill: "#d55e00", text: "#ffffff" },
+      Extreme: { fill: "#cc79a7", text: "#000000" },
+    },
+  },
+};
+
+export const DEFAULT_PALETTE: SeverityPaletteId = "who";
+
+const PALETTE_STORAGE_KEY = "uv-index:palette";
+
+/**
+ * Find the category of a UV index
+ * @param uvIndex The UV index value
+ * @returns The band of the scale the value falls in
+ */
+export function getSeverityBand(uvIndex: number): UVSeverityBand {
+  return (
+    UV_SEVERITY_SCALE.find(({ max }) => max === null || uvIndex < max) ??
+    UV_SEVERITY_SCALE[UV_SEVERITY_SCALE.length - 1]
+  );
+}
+
+/**
+ * Get the severity level of a UV index with its label, advice and colours
+ * @param uvIndex The UV index value
+ * @param locale Language of the label and advice
+ * @param palette Palette to take the colours from
+ */
+export function getUVSeverity(
+  uvIndex: number,
+  locale: Locale = DEFAULT_LOCALE,
+  palette: SeverityPaletteId = DEFAULT_PALETTE
+): UVSeverity {
+  const band = getSeverityBand(uvIndex);
+
+  return {
+    ...band,
+    label: getSeverityLabel(band.level, locale),
+    advice: translate(locale, `advice.${band.level}` as MessageKey),
+    colors: SEVERITY_PALETTES[palette].colors[band.level],
+  };
+}
+
+/**
+ * Get the name of a severity level in a language
+ * @param level The level
+ * @param locale Language of the name
+ */
+export function getSeverityLabel(
+  level: UVSeverityLevel,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  return translate(locale, `severity.${level}` as MessageKey);
+}
+
+/**
+ * Get the description of a protective action in a language
+ * @param action The action
+ * @param locale Language of the description
+ */
+export function getActionLabel(
+  action: ProtectiveAction,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  return translate(locale, `action.${action}` as MessageKey);
+}
+
+/**
+ * Check whether a value names a palette
+ * @param value Value to check
+ */
+export function isSeverityPalette(value: unknown): value is SeverityPaletteId {
+  return Object.keys(SEVERITY_PALETTES).includes(value as string);
+}
+
+/**
+ * Load the saved palette, falling back to the WHO colours
+ */
+export function loadPalette(): SeverityPaletteId {
+  try {
+    const saved = localStorage.getItem(PALETTE_STORAGE_KEY);
+    if (isSeverityPalette(saved)) return saved;
+  } catch {
+    // Storage may be unavailable, e.g. in private browsing
+  }
+  return DEFAULT_PALETTE;
+}
+
+/**
+ * Save the chosen palette
+ * @param palette Palette to remember
+ */
+export function savePalette(palette: SeverityPaletteId): void {
+  localStorage.setItem(PALETTE_STORAGE_KEY, palette);
+}
@@ -0,0 +1,139 @@
+// UV Widget
+// Options of the embeddable widget and the badge image, read from the query
+// string of /embed and /api/badge.*
+
+import { DEFAULT_LOCALE, Locale, SUPPORTED_LOCALES } from "./i18n";
+import {
+  LOCATION_PARAMS,
+  QueryParamSpec,
+  parseQueryParams,
+} from "./publicApi";
+import { LocationData, UVProviderId } from "./types";
+import {
+  DEFAULT_PALETTE,
+  SEVERITY_PALETTES,
+  SeverityPaletteId,
+} from "./uvSeverity";
+
+export type WidgetTheme = "light" | "dark";
+
+// Compact shows the current reading only, full the whole forecast
+export type WidgetLayout = "compact" | "full";
+
+// Options of an embedded widget
+export interface WidgetOptions {
+  location: LocationData;
+  theme: WidgetTheme;
+  layout: WidgetLayout;
+  // Fixed language and palette; the visitor's own choices when left out
+  locale?: Locale;
+  palette?: SeverityPaletteId;
+}
+
+// Options of a badge image
+export interface BadgeOptions {
+  location: LocationData;
+  provider?: UVProviderId;
+  locale: Locale;
+  palette: SeverityPaletteId;
+}
+
+export const LANG_PARAM: QueryParamSpec = {
+  name: "lang",
+  description: "Language of the text",
+  type: "string",
+  enum: [...SUPPORTED_LOCALES],
+};
+
+export const PALETTE_PARAM: QueryParamSpec = {
+  name: "palette",
+  description: "Colours of the severity levels",
+  type: "string",
+  enum: Object.keys(SEVERITY_PALETTES),
+};
+
+export const WIDGET_PARAMS: QueryParamSpec[] = [
+  // The widget always follows the configured provider chain
+  ...LOCATION_PARAMS.filter(({ name }) => name !== "provider"),
+  {
+    name: "name",
+    description: "Place name shown under the reading",
+    type: "string",
+  },
+  {
+    name: "theme",
+    description: "Colour scheme of the widget",
+    type: "string",
+    enum: ["light", "dark"],
+    default: "light",
+  },
+  {
+    name: "layout",
+    description: "Current reading only, or the whole forecast",
+    type: "string",
+    enum: ["compact", "full"],
+    default: "compact",
+  },
+  LANG_PARAM,
+  PALETTE_PARAM,
+];
+
+export const BADGE_PARAMS: QueryParamSpec[] = [
+  ...LOCATION_PARAMS,
+  { ...LANG_PARAM, default: DEFAULT_LOCALE },
+  { ...PALETTE_PARAM, default: DEFAULT_PALETTE },
+];
+
+/**
+ * Read the widget options from the query string of /embed
+ * @param searchParams The page's query parameters
+ * @returns The options, or an error message for the first invalid parameter
+ */
+export function parseWidgetOptions(
+  searchParams: URLSearchParams
+): { options: WidgetOptions } | { error: string } {
+  const parsed = parseQueryParams(searchParams, WIDGET_PARAMS);
+  if ("error" in parsed) return parsed;
+
+  const { values } = parsed;
+  return {
+    options: {
+      location: {
+        lat: values.lat as number,
+        lng: values.lng as number,
+        altitude: values.alt as number | undefined,
+        address: values.name as string | undefined,
+      },
+      theme: values.theme as WidgetTheme,
+      layout: values.layout as WidgetLayout,
+      locale: values.lang as Locale | undefined,
+      palette: values.palette as SeverityPaletteId | undefined,
+    },
+  };
+}
+
+/**
+ * Read the badge options from the query string of /api/badge.*
+ * @param searchParams The request's query parameters
+ * @returns The options, or an error message for the first invalid parameter
+ */
+export function parseBadgeOptions(
+  searchParams: URLSearchParams
+): { options: BadgeOptions } | { error: string } {
+  const parsed = parseQueryParams(searchParams, BADGE_PARAMS);
+  if ("error" in parsed) return parsed;
+
+  const { values } = parsed;
+  return {
+    options: {
+      location: {
+        lat: values.lat as number,
+        lng: values.lng as number,
+        altitude: values.alt as number | undefined,
+      },
+      provider: values.provider as UVProviderId | undefined,
+      locale: values.lang as Locale,
+      palette: values.palette as SeverityPaletteId,
+    },
+  };
+}
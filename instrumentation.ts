@@ -0,0 +1,12 @@
+// Server Instrumentation
+// Runs once when the server starts; starts the UV history recorder
+
+export async function register() {
+  // The recorder writes to the file system, so only run it on Node.js
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startHistoryRecorder } = await import(
+      "./app/services/historyRecorder"
+    );
+    startHistoryRecorder();
+  }
+}
@@ -0,0 +1,155 @@
+// UV Index Service Worker
+// Shows alert notifications and opens the app when one is clicked, and keeps
+// the app shell and the last UV forecast per location for use offline
+
+// Bump to drop the caches of older versions on activation
+const CACHE_VERSION = "v2";
+const SHELL_CACHE = `uv-index-shell-${CACHE_VERSION}`;
+const DATA_CACHE = `uv-index-data-${CACHE_VERSION}`;
+
+// Pages cached on install so the app opens without a network
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg"];
+
+// Grid size in degrees that forecast coordinates are rounded to before
+// caching, matching the server's cache (see uvCache.ts) so small GPS jitter
+// still finds the last forecast offline
+const FORECAST_GRID_SIZE = 0.01;
+
+// Added to cached forecast responses; the client reads it to tell an offline
+// answer apart from a live one (see uvApiClient.ts)
+const CACHED_AT_HEADER = "X-UV-Cached-At";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .catch((error) => console.error("Precaching failed:", error))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== SHELL_CACHE && key !== DATA_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (url.pathname === "/api/uv") {
+    event.respondWith(forecastFromNetwork(request));
+  } else if (request.mode === "navigate") {
+    event.respondWith(pageFromNetwork(request));
+  } else if (
+    url.pathname.startsWith("/_next/static/") ||
+    SHELL_URLS.includes(url.pathname)
+  ) {
+    event.respondWith(assetFromCache(request));
+  }
+  // Other requests, including the rest of the API, go to the network as usual
+});
+
+// Key a forecast request by its grid cell rather than the exact coordinates,
+// dropping the time zone the server resolves itself
+function forecastCacheKey(request) {
+  const url = new URL(request.url);
+  const snap = (value) =>
+    (Math.round(Number(value) / FORECAST_GRID_SIZE) * FORECAST_GRID_SIZE)
+      .toFixed(2);
+
+  for (const name of ["lat", "lng"]) {
+    if (url.searchParams.has(name)) {
+      url.searchParams.set(name, snap(url.searchParams.get(name)));
+    }
+  }
+  if (url.searchParams.has("alt")) {
+    url.searchParams.set(
+      "alt",
+      String(Math.round(Number(url.searchParams.get("alt"))))
+    );
+  }
+  url.searchParams.delete("tz");
+  return url.toString();
+}
+
+// Fetch a forecast, remembering the latest one per location and falling back
+// to it when the network is unavailable
+async function forecastFromNetwork(request) {
+  const cache = await caches.open(DATA_CACHE);
+  const key = forecastCacheKey(request);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const headers = new Headers(response.headers);
+      headers.set(CACHED_AT_HEADER, new Date().toISOString());
+      await cache.put(
+        key,
+        new Response(await response.clone().blob(), {
+          status: response.status,
+          headers,
+        })
+      );
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Load pages from the network so they are always current, keeping a copy to
+// open offline
+async function pageFromNetwork(request) {
+  const cache = await caches.open(SHELL_CACHE);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request)) || (await cache.match("/"));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Serve build assets from the cache; their URLs change whenever they do
+async function assetFromCache(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || "/";
+
+  // Focus an open tab of the app if there is one, otherwise open a new one
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        const client = clients.find((candidate) => "focus" in candidate);
+        return client ? client.focus() : self.clients.openWindow(url);
+      })
+  );
+});
@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+
+import { cleanup, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import MeteomaticsUVDisplay from "../../app/components/MeteomaticsUVDisplay";
+import { LocationData, UVDataResult } from "../../app/services/types";
+
+const STOCKHOLM: LocationData = {
+  lat: 59.3293,
+  lng: 18.0686,
+  address: "Stockholm",
+};
+
+// Answer the component's request to /api/uv with a result
+const respondWith = (status: number, result: UVDataResult) =>
+  vi.fn(async () => Response.json(result, { status }));
+
+describe("MeteomaticsUVDisplay", () => {
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it("shows a spinner while the forecast loads", async () => {
+    // Never settles, so the component stays loading
+    const fetch = vi.fn<typeof globalThis.fetch>(() => new Promise(() => {}));
+    vi.stubGlobal("fetch", fetch);
+
+    render(<MeteomaticsUVDisplay fixedLocation={STOCKHOLM} />);
+
+    expect(screen.getByText("Loading UV index data...")).toBeTruthy();
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+    expect(String(fetch.mock.calls[0][0])).toMatch(
+      /^\/api\/uv\?lat=59.3293&lng=18.0686/
+    );
+  });
+
+  it("explains why no provider answered", async () => {
+    vi.stubGlobal(
+      "fetch",
+      respondWith(502, {
+        data: null,
+        provider: null,
+        error: {
+          kind: "rate-limited",
+          message: "Rate limit exceeded",
+          provider: "meteomatics",
+          status: 429,
+        },
+        attempts: [],
+      })
+    );
+
+    render(<MeteomaticsUVDisplay fixedLocation={STOCKHOLM} />);
+
+    expect(await screen.findByText("Too Many Requests")).toBeTruthy();
+    expect(screen.getByText("meteomatics: Rate limit exceeded")).toBeTruthy();
+  });
+
+  it("says so when the lookup found no data", async () => {
+    vi.stubGlobal(
+      "fetch",
+      respondWith(200, { data: null, provider: null, attempts: [] })
+    );
+
+    render(<MeteomaticsUVDisplay fixedLocation={STOCKHOLM} />);
+
+    expect(await screen.findByText("No Data Available")).toBeTruthy();
+    expect(screen.queryByText("Loading UV index data...")).toBeNull();
+  });
+});
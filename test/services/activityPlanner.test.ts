@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+  getBurnDoseSed,
+  getExposureDose,
+  planActivity,
+} from "../../app/services/activityPlanner";
+import { HourlyUVData } from "../../app/services/types";
+import { createUVExposure } from "../../app/services/uvForecast";
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Midnight UTC on midsummer's eve, 02:00 in Stockholm
+const MIDNIGHT = Date.parse("2025-06-21T00:00:00Z");
+const TIME_ZONE = "Europe/Stockholm";
+
+// Quarter-hourly forecast over two days, with the UV index for each sample
+const forecastOf = (uvAt: (time: number) => number): HourlyUVData[] => {
+  const forecast: HourlyUVData[] = [];
+  const end = MIDNIGHT + 48 * HOUR_MS;
+  for (let time = MIDNIGHT; time <= end; time += 15 * MINUTE_MS) {
+    forecast.push({ time: new Date(time).toISOString(), uvIndex: uvAt(time) });
+  }
+  return forecast;
+};
+
+// UV from 05:00 to 19:00 Stockholm time, peaking at 8 at noon
+const sunnyDay = (time: number) => {
+  const localHour = (((time - MIDNIGHT) / HOUR_MS + 2) % 24) - 5;
+  return Math.max(0, 8 * Math.sin((Math.PI * localHour) / 14));
+};
+
+describe("getExposureDose", () => {
+  it("sums a constant UV index over the period", () => {
+    const exposure = createUVExposure(forecastOf(() => 4));
+
+    // 4 × 60 minutes × 1.5 J/m² is 360 J/m², or 3.6 SED
+    expect(getExposureDose(exposure, MIDNIGHT, 60)).toEqual({
+      doseSed: expect.closeTo(3.6),
+      peakUvIndex: 4,
+    });
+  });
+
+  it("finds the peak between samples and at the edges", () => {
+    const exposure = createUVExposure([
+      { time: "2025-06-21T10:00:00Z", uvIndex: 2 },
+      { time: "2025-06-21T11:00:00Z", uvIndex: 6 },
+      { time: "2025-06-21T12:00:00Z", uvIndex: 4 },
+    ]);
+    const start = Date.parse("2025-06-21T10:30:00Z");
+
+    expect(getExposureDose(exposure, start, 60)).toEqual({
+      // Half an hour averaging 5, then half an hour averaging 5.5
+      doseSed: expect.closeTo((5 * 30 + 5.5 * 30) * 0.015),
+      peakUvIndex: 6,
+    });
+    expect(getExposureDose(exposure, start, 15)?.peakUvIndex).toBe(5);
+  });
+
+  it("knows nothing outside the forecast", () => {
+    const exposure = createUVExposure(forecastOf(() => 4));
+
+    expect(getExposureDose(exposure, MIDNIGHT - HOUR_MS, 120)).toBeNull();
+    expect(getExposureDose(exposure, MIDNIGHT + 47 * HOUR_MS, 120)).toBeNull();
+  });
+});
+
+describe("getBurnDoseSed", () => {
+  it("scales the skin type's dose by the SPF", () => {
+    expect(getBurnDoseSed("I")).toBe(2);
+    expect(getBurnDoseSed("III", 15)).toBe(52.5);
+  });
+});
+
+describe("planActivity", () => {
+  // 06:00 Stockholm time
+  const FROM = MIDNIGHT + 4 * HOUR_MS;
+
+  it("suggests the lowest-dose slots of each day without overlaps", () => {
+    const plans = planActivity(forecastOf(sunnyDay), {
+      durationMinutes: 60,
+      from: FROM,
+      timeZone: TIME_ZONE,
+    });
+
+    expect(plans.map(({ date }) => date)).toEqual([
+      "2025-06-21",
+      "2025-06-22",
+    ]);
+    // After sunset, from 19:00 Stockholm time
+    expect(plans[0].slots.map(({ start }) => start)).toEqual([
+      "2025-06-21T17:00:00.000Z",
+      "2025-06-21T18:00:00.000Z",
+      "2025-06-21T19:00:00.000Z",
+    ]);
+    expect(plans[0].slots[0]).toMatchObject({
+      doseSed: expect.closeTo(0),
+      peakUvIndex: expect.closeTo(0),
+    });
+  });
+
+  it("keeps to the allowed hours", () => {
+    const plans = planActivity(forecastOf(sunnyDay), {
+      durationMinutes: 120,
+      from: FROM,
+      timeZone: TIME_ZONE,
+      earliestHour: 8,
+      latestHour: 14,
+      limit: 1,
+    });
+
+    // The morning side of noon, as early as allowed
+    expect(plans[0].slots).toEqual([
+      expect.objectContaining({
+        start: "2025-06-21T06:00:00.000Z",
+        end: "2025-06-21T08:00:00.000Z",
+      }),
+    ]);
+  });
+
+  it("leaves out slots above the UV limit or the burn dose", () => {
+    const options = {
+      durationMinutes: 60,
+      from: FROM,
+      timeZone: TIME_ZONE,
+      earliestHour: 10,
+      latestHour: 14,
+    };
+
+    expect(
+      planActivity(forecastOf(sunnyDay), { ...options, maxUvIndex: 5 })[0]
+        .slots
+    ).toEqual([]);
+    expect(
+      planActivity(forecastOf(() => 10), { ...options, skinType: "I" })[0]
+        .slots
+    ).toEqual([]);
+    expect(
+      planActivity(forecastOf(() => 10), {
+        ...options,
+        skinType: "I",
+        spf: 50,
+      })[0].slots
+    ).toHaveLength(3);
+  });
+
+  it("starts on the first step from the given time", () => {
+    const plans = planActivity(forecastOf(() => 1), {
+      durationMinutes: 30,
+      from: FROM + 5 * MINUTE_MS,
+      timeZone: TIME_ZONE,
+      limit: 1,
+    });
+
+    expect(plans[0].slots[0].start).toBe("2025-06-21T04:15:00.000Z");
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, expect, it } from "vitest";
+import {
+  AlertRule,
+  DailySummaryAlertRule,
+  SentAlert,
+  ThresholdAlertRule,
+  evaluateAlertRules,
+} from "../../app/services/alertRules";
+import { HourlyUVData, UVData, findMaxUV } from "../../app/services/types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const QUARTER_MS = 15 * 60 * 1000;
+
+// Midsummer's eve in Stockholm, 10:00 local time
+const MORNING = Date.parse("2025-06-21T08:00:00Z");
+const TIME_ZONE = "Europe/Stockholm";
+
+const THRESHOLD_RULE: ThresholdAlertRule = {
+  id: "high",
+  name: "Stockholm",
+  location: { lat: 59.3293, lng: 18.0686 },
+  enabled: true,
+  type: "threshold",
+  threshold: 6,
+  leadTimeMinutes: 60,
+};
+
+const SUMMARY_RULE: DailySummaryAlertRule = {
+  id: "summary",
+  name: "Stockholm",
+  location: { lat: 59.3293, lng: 18.0686 },
+  enabled: true,
+  type: "daily-summary",
+  time: "08:00",
+};
+
+// Quarter-hourly forecast from a time on, with the UV index for each sample
+const forecastFrom = (
+  start: number,
+  uvAt: (time: number) => number,
+  hours = 24
+): UVData => {
+  const hourlyForecast: HourlyUVData[] = [];
+  for (let time = start; time <= start + hours * HOUR_MS; time += QUARTER_MS) {
+    hourlyForecast.push({
+      time: new Date(time).toISOString(),
+      uvIndex: uvAt(time),
+    });
+  }
+  return {
+    uvIndex: hourlyForecast[0].uvIndex,
+    timestamp: hourlyForecast[0].time,
+    ...findMaxUV(hourlyForecast),
+    hourlyForecast,
+    timeZone: TIME_ZONE,
+    source: "Test",
+    provider: "meteomatics",
+    latitude: 59.3293,
+    longitude: 18.0686,
+  };
+};
+
+// UV 8 from one time until another, 1 otherwise
+const highBetween = (from: number, to: number) => (time: number) =>
+  time >= from && time < to ? 8 : 1;
+
+// Run the evaluator every 15 minutes on a forecast fetched at each check
+const checkEveryQuarter = (
+  rules: AlertRule[],
+  uvAt: (time: number) => number,
+  from: number,
+  to: number
+) => {
+  let sent: SentAlert[] = [];
+  const notified: number[] = [];
+  for (let now = from; now <= to; now += QUARTER_MS) {
+    const data = forecastFrom(now, uvAt);
+    const forecasts = Object.fromEntries(rules.map(({ id }) => [id, data]));
+    const result = evaluateAlertRules(rules, forecasts, now, sent, "UTC");
+    sent = result.sent;
+    result.notifications.forEach(() => notified.push(now));
+  }
+  return notified;
+};
+
+describe("evaluateAlertRules", () => {
+  it("alerts once for a high period that is already under way", () => {
+    const notified = checkEveryQuarter(
+      [THRESHOLD_RULE],
+      highBetween(MORNING, MORNING + 6 * HOUR_MS),
+      MORNING,
+      MORNING + 6 * HOUR_MS
+    );
+
+    expect(notified).toEqual([MORNING]);
+  });
+
+  it("alerts ahead of a crossing within the lead time", () => {
+    const crossing = MORNING + 3 * HOUR_MS;
+    const notified = checkEveryQuarter(
+      [THRESHOLD_RULE],
+      highBetween(crossing, crossing + 2 * HOUR_MS),
+      MORNING,
+      crossing + 2 * HOUR_MS
+    );
+
+    expect(notified).toEqual([crossing - HOUR_MS]);
+  });
+
+  it("says when UV will reach the threshold", () => {
+    const crossing = MORNING + 30 * 60 * 1000;
+    const data = forecastFrom(
+      MORNING,
+      highBetween(crossing, crossing + HOUR_MS)
+    );
+    const { notifications, sent } = evaluateAlertRules(
+      [THRESHOLD_RULE],
+      { high: data },
+      MORNING,
+      [],
+      "UTC"
+    );
+
+    expect(notifications).toEqual([
+      {
+        ruleId: "high",
+        title: "UV alert: Stockholm",
+        body: "UV will reach 6 at 10:25, peaking at 8.0.",
+        tag: expect.stringMatching(/^high:/),
+      },
+    ]);
+    expect(sent).toHaveLength(1);
+  });
+
+  it("alerts again for a later, separate high period", () => {
+    const first = highBetween(MORNING, MORNING + HOUR_MS);
+    const second = highBetween(MORNING + 4 * HOUR_MS, MORNING + 5 * HOUR_MS);
+    const uvAt = (time: number) => Math.max(first(time), second(time));
+
+    const notified = checkEveryQuarter(
+      [THRESHOLD_RULE],
+      uvAt,
+      MORNING,
+      MORNING + 5 * HOUR_MS
+    );
+
+    expect(notified).toEqual([MORNING, MORNING + 3 * HOUR_MS]);
+  });
+
+  it("recognises a period recorded with its crossing time only", () => {
+    const data = forecastFrom(
+      MORNING,
+      highBetween(MORNING - HOUR_MS, MORNING + 6 * HOUR_MS)
+    );
+    const sent: SentAlert[] = [
+      { ruleId: "high", key: String(MORNING), sentAt: MORNING - QUARTER_MS },
+    ];
+
+    const result = evaluateAlertRules(
+      [THRESHOLD_RULE],
+      { high: data },
+      MORNING + QUARTER_MS,
+      sent,
+      "UTC"
+    );
+
+    expect(result.notifications).toEqual([]);
+    // The record now covers the whole period, crossing down just before 16:00
+    expect(result.sent).toHaveLength(1);
+    expect(result.sent[0].end).toBeGreaterThan(MORNING + 5.75 * HOUR_MS);
+  });
+
+  it("holds alerts back during quiet hours", () => {
+    const { notifications } = evaluateAlertRules(
+      [{ ...THRESHOLD_RULE, quietHours: { start: "09:00", end: "12:00" } }],
+      { high: forecastFrom(MORNING, () => 8) },
+      MORNING,
+      [],
+      "UTC"
+    );
+
+    expect(notifications).toEqual([]);
+  });
+
+  it("skips disabled rules and rules without data", () => {
+    const { notifications } = evaluateAlertRules(
+      [{ ...THRESHOLD_RULE, enabled: false }, SUMMARY_RULE],
+      { high: forecastFrom(MORNING, () => 8) },
+      MORNING,
+      [],
+      "UTC"
+    );
+
+    expect(notifications).toEqual([]);
+  });
+
+  it("sends the daily summary once, after its time", () => {
+    const notified = checkEveryQuarter(
+      [SUMMARY_RULE],
+      (time) => (time === MORNING + 2 * HOUR_MS ? 7 : 3),
+      MORNING - 3 * HOUR_MS,
+      MORNING + 2 * HOUR_MS
+    );
+
+    // 08:00 local time
+    expect(notified).toEqual([MORNING - 2 * HOUR_MS]);
+  });
+
+  it("does not send a summary long after its time", () => {
+    const { notifications } = evaluateAlertRules(
+      [SUMMARY_RULE],
+      { summary: forecastFrom(MORNING, () => 5) },
+      MORNING + 4 * HOUR_MS,
+      [],
+      "UTC"
+    );
+
+    expect(notifications).toEqual([]);
+  });
+
+  it("drops sent records after two days", () => {
+    const sent: SentAlert[] = [
+      { ruleId: "high", key: "0", sentAt: MORNING - 3 * 24 * HOUR_MS },
+    ];
+
+    const result = evaluateAlertRules([], {}, MORNING, sent, "UTC");
+
+    expect(result.sent).toEqual([]);
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { UpstreamClient } from "../../app/services/httpClient";
+import { fetchMeteomaticsUVData } from "../../app/services/meteomaticsService";
+import { LocationData } from "../../app/services/types";
+import {
+  MockUpstream,
+  fixture,
+  startMockUpstream,
+} from "../support/mockUpstream";
+
+const STOCKHOLM: LocationData = { lat: 59.3293, lng: 18.0686 };
+
+// When the fixtures were recorded: midsummer's eve, an hour before the peak
+const NOW = Date.parse("2025-06-21T10:00:00Z");
+
+const ONE_DAY = { days: 1, intervalMinutes: 60 };
+
+describe("fetchMeteomaticsUVData", () => {
+  let upstream: MockUpstream;
+  let client: UpstreamClient;
+
+  beforeAll(async () => {
+    upstream = await startMockUpstream();
+  });
+
+  afterAll(() => upstream.close());
+
+  beforeEach(() => {
+    upstream.requests.length = 0;
+    client = {
+      baseUrl: upstream.url,
+      now: () => NOW,
+      // No retries or rate limiting, so every request is answered once
+      request: { retries: 0, timeoutMs: 200, rateLimiter: undefined },
+    };
+  });
+
+  it("requests the window from now to 24 hours ahead", async () => {
+    upstream.respond({ body: fixture("meteomatics/success.json") });
+
+    await fetchMeteomaticsUVData(STOCKHOLM, ONE_DAY, client);
+
+    expect(upstream.requests).toHaveLength(1);
+    expect(upstream.requests[0].url).toBe(
+      "/2025-06-21T10:00:00Z--2025-06-22T10:00:00Z:PT60M/" +
+        "uv:idx,effective_cloud_cover:p,elevation:m/59.3293,18.0686/json"
+    );
+    expect(upstream.requests[0].headers.authorization).toBe(
+      `Basic ${Buffer.from("test_user:test_password").toString("base64")}`
+    );
+  });
+
+  it("reads the forecast and picks the highest UV index", async () => {
+    upstream.respond({ body: fixture("meteomatics/success.json") });
+
+    const data = await fetchMeteomaticsUVData(STOCKHOLM, ONE_DAY, client);
+
+    expect(data).toMatchObject({
+      provider: "meteomatics",
+      uvIndex: 6.3,
+      timestamp: "2025-06-21T10:00:00Z",
+      maxUvIndex: 6.4,
+      maxUvTime: "2025-06-21T11:00:00Z",
+      elevation: 28,
+    });
+    expect(data.hourlyForecast).toHaveLength(25);
+    expect(data.hourlyForecast?.[0]).toEqual({
+      time: "2025-06-21T10:00:00Z",
+      uvIndex: 6.3,
+      cloudCover: 12.4,
+    });
+  });
+
+  it("asks for the UV index alone when the plan lacks the extras", async () => {
+    upstream.respond(
+      { status: 403 },
+      { body: fixture("meteomatics/success.json") }
+    );
+
+    const data = await fetchMeteomaticsUVData(STOCKHOLM, ONE_DAY, client);
+
+    expect(upstream.requests).toHaveLength(2);
+    expect(upstream.requests[1].url).toContain("/uv:idx/");
+    expect(data.maxUvIndex).toBe(6.4);
+  });
+
+  it("rejects a forecast without dates as malformed", async () => {
+    upstream.respond({ body: fixture("meteomatics/empty-dates.json") });
+
+    await expect(
+      fetchMeteomaticsUVData(STOCKHOLM, ONE_DAY, client)
+    ).rejects.toMatchObject({
+      kind: "malformed",
+      message: "Unexpected response: forecast contains no dates",
+    });
+  });
+
+  it("rejects a value that is not a UV index as malformed", async () => {
+    upstream.respond({ body: fixture("meteomatics/malformed.json") });
+
+    await expect(
+      fetchMeteomaticsUVData(STOCKHOLM, ONE_DAY, client)
+    ).rejects.toMatchObject({ kind: "malformed", provider: "meteomatics" });
+  });
+
+  it("reports rejected credentials", async () => {
+    upstream.respond({ status: 401, body: "Unauthorized" });
+
+    await expect(
+      fetchMeteomaticsUVData(STOCKHOLM, ONE_DAY, client)
+    ).rejects.toMatchObject({ kind: "auth", status: 401 });
+  });
+
+  it("releases the request timers of refused requests", async () => {
+    const timeoutMs = 60_000;
+    upstream.respond(
+      { status: 403, body: "Forbidden" },
+      { status: 500, body: "Internal Server Error" }
+    );
+    const setTimer = vi.spyOn(globalThis, "setTimeout");
+    const clearTimer = vi.spyOn(globalThis, "clearTimeout");
+
+    try {
+      await expect(
+        fetchMeteomaticsUVData(STOCKHOLM, ONE_DAY, {
+          ...client,
+          request: { ...client.request, timeoutMs },
+        })
+      ).rejects.toMatchObject({ status: 500 });
+
+      const timers = setTimer.mock.calls.flatMap(([, delay], index) =>
+        delay === timeoutMs ? [setTimer.mock.results[index].value] : []
+      );
+      expect(timers).toHaveLength(2);
+      expect(clearTimer.mock.calls.map(([timer]) => timer)).toEqual(
+        expect.arrayContaining(timers)
+      );
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it("reports the rate limit once the retries are used up", async () => {
+    upstream.respond({ status: 429, headers: { "Retry-After": "1" } });
+
+    await expect(
+      fetchMeteomaticsUVData(STOCKHOLM, ONE_DAY, client)
+    ).rejects.toMatchObject({ kind: "rate-limited", status: 429 });
+  });
+
+  it("retries after the delay the rate limit asks for", async () => {
+    const delays: number[] = [];
+    upstream.respond(
+      { status: 429, headers: { "Retry-After": "1" } },
+      { body: fixture("meteomatics/success.json") }
+    );
+
+    const data = await fetchMeteomaticsUVData(STOCKHOLM, ONE_DAY, {
+      ...client,
+      request: {
+        ...client.request,
+        retries: 1,
+        sleep: async (ms) => {
+          delays.push(ms);
+        },
+      },
+    });
+
+    expect(delays).toEqual([1000]);
+    expect(upstream.requests).toHaveLength(2);
+    expect(data.uvIndex).toBe(6.3);
+  });
+
+  it("gives up on an upstream that does not answer in time", async () => {
+    upstream.respond({
+      body: fixture("meteomatics/success.json"),
+      delayMs: 1000,
+    });
+
+    await expect(
+      fetchMeteomaticsUVData(STOCKHOLM, ONE_DAY, {
+        ...client,
+        request: { ...client.request, timeoutMs: 50 },
+      })
+    ).rejects.toMatchObject({
+      kind: "network",
+      message: "Request timed out after 50 ms",
+      provider: "meteomatics",
+    });
+  });
+
+  it("gives up on a body that stalls after the headers", async () => {
+    upstream.respond({
+      body: fixture("meteomatics/success.json"),
+      bodyDelayMs: 1000,
+    });
+
+    await expect(
+      fetchMeteomaticsUVData(STOCKHOLM, ONE_DAY, {
+        ...client,
+        request: { ...client.request, timeoutMs: 50 },
+      })
+    ).rejects.toMatchObject({
+      kind: "network",
+      message: "Request timed out after 50 ms",
+      provider: "meteomatics",
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  estimateBurnTime,
+  getSkinTypeInfo,
+} from "../../app/services/skinType";
+import { HourlyUVData } from "../../app/services/types";
+import { createUVExposure } from "../../app/services/uvForecast";
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const START = Date.parse("2025-06-21T08:00:00Z");
+
+// Quarter-hourly forecast over a number of hours, with the UV index for each
+// sample
+const forecastOver = (
+  hours: number,
+  uvAt: (time: number) => number
+): HourlyUVData[] => {
+  const forecast: HourlyUVData[] = [];
+  const end = START + hours * HOUR_MS;
+  for (let time = START; time <= end; time += 15 * MINUTE_MS) {
+    forecast.push({ time: new Date(time).toISOString(), uvIndex: uvAt(time) });
+  }
+  return forecast;
+};
+
+describe("getSkinTypeInfo", () => {
+  it("gives the minimal erythemal dose of a skin type", () => {
+    expect(getSkinTypeInfo("I").medJoulesPerM2).toBe(200);
+    expect(getSkinTypeInfo("VI").medJoulesPerM2).toBe(1000);
+  });
+});
+
+describe("estimateBurnTime", () => {
+  it("divides the dose by a constant UV index", () => {
+    // 600 J/m² at UV 10, 1.5 J/m² per UV index minute
+    const exposure = createUVExposure(forecastOver(6, () => 10));
+
+    expect(estimateBurnTime(exposure, "V", { startTime: START })).toBe(40);
+  });
+
+  it("rounds up to whole minutes", () => {
+    const exposure = createUVExposure(forecastOver(6, () => 10));
+
+    expect(estimateBurnTime(exposure, "I", { startTime: START })).toBe(14);
+  });
+
+  it("multiplies the time by the sunscreen's SPF", () => {
+    const exposure = createUVExposure(forecastOver(6, () => 10));
+
+    expect(
+      estimateBurnTime(exposure, "V", { startTime: START, spf: 2 })
+    ).toBe(80);
+  });
+
+  it("follows a rising UV index", () => {
+    // UV rises from 0 by 0.2 a minute, so the dose after t minutes is
+    // 1.5 × 0.1 t², reaching 200 J/m² after 36.5 minutes
+    const exposure = createUVExposure(
+      forecastOver(1, (time) => ((time - START) / MINUTE_MS) * 0.2)
+    );
+
+    expect(estimateBurnTime(exposure, "I", { startTime: START })).toBe(37);
+  });
+
+  it("starts partway into the forecast", () => {
+    const exposure = createUVExposure(
+      forecastOver(6, (time) => (time < START + HOUR_MS ? 0 : 10))
+    );
+
+    expect(
+      estimateBurnTime(exposure, "V", { startTime: START + 2 * HOUR_MS })
+    ).toBe(40);
+  });
+
+  it("gives up when the dose is not reached within a day", () => {
+    // UV 1 for three days would burn type VI with SPF 3 after 33 hours
+    const exposure = createUVExposure(forecastOver(72, () => 1));
+
+    expect(
+      estimateBurnTime(exposure, "VI", { startTime: START, spf: 3 })
+    ).toBeNull();
+    expect(estimateBurnTime(exposure, "VI", { startTime: START })).toBe(667);
+  });
+
+  it("gives up when the forecast ends first", () => {
+    const exposure = createUVExposure(forecastOver(7 * 24, () => 0.5));
+
+    expect(
+      estimateBurnTime(exposure, "VI", { startTime: START, spf: 50 })
+    ).toBeNull();
+  });
+
+  it("knows nothing before the forecast starts", () => {
+    const exposure = createUVExposure(forecastOver(6, () => 10));
+
+    expect(
+      estimateBurnTime(exposure, "I", { startTime: START - HOUR_MS })
+    ).toBeNull();
+    expect(
+      estimateBurnTime(createUVExposure([]), "I", { startTime: START })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { UVData } from "../../app/services/types";
+import {
+  adjustUVData,
+  findNearestSample,
+  getAdjustmentFactors,
+  getElevationFactor,
+  getSurfaceFactor,
+  isSurfaceType,
+} from "../../app/services/uvAdjustment";
+
+// Meteomatics-like data modelled for terrain at 500 m
+const DATA: UVData = {
+  uvIndex: 4,
+  timestamp: "2025-06-21T10:00:00Z",
+  maxUvIndex: 6,
+  maxUvTime: "2025-06-21T11:00:00Z",
+  hourlyForecast: [
+    { time: "2025-06-21T10:00:00Z", uvIndex: 4, cloudCover: 20 },
+    { time: "2025-06-21T11:00:00Z", uvIndex: 6, cloudCover: 40 },
+    { time: "2025-06-21T12:00:00Z", uvIndex: 5 },
+  ],
+  timeZone: "Europe/Stockholm",
+  source: "Test",
+  provider: "meteomatics",
+  latitude: 59.3293,
+  longitude: 18.0686,
+  elevation: 500,
+};
+
+describe("getElevationFactor", () => {
+  it("raises UV by 10% per 1000 m above the modelled terrain", () => {
+    expect(getElevationFactor(1500, 500)).toBeCloseTo(1.1);
+    expect(getElevationFactor(2500, 500)).toBeCloseTo(1.2);
+  });
+
+  it("never lowers UV for an altitude below the modelled terrain", () => {
+    expect(getElevationFactor(0, 500)).toBe(1);
+    expect(getElevationFactor(-400, 3000)).toBe(1);
+  });
+
+  it("makes no change when either height is unknown", () => {
+    expect(getElevationFactor(undefined, 500)).toBe(1);
+    expect(getElevationFactor(1500, undefined)).toBe(1);
+  });
+});
+
+describe("getSurfaceFactor", () => {
+  it("adds the light reflected by the surface", () => {
+    expect(getSurfaceFactor("none")).toBe(1);
+    expect(getSurfaceFactor("snow")).toBeCloseTo(1.8);
+    expect(getSurfaceFactor("sand")).toBeCloseTo(1.15);
+  });
+});
+
+describe("getAdjustmentFactors", () => {
+  it("multiplies altitude and surface and reports the cloud cover", () => {
+    const factors = getAdjustmentFactors(DATA, DATA.hourlyForecast![1], {
+      surface: "water",
+      altitude: 1500,
+    });
+
+    expect(factors.elevation).toBeCloseTo(1.1);
+    expect(factors.surface).toBeCloseTo(1.1);
+    expect(factors.total).toBeCloseTo(1.21);
+    expect(factors.cloudCover).toBe(40);
+  });
+});
+
+describe("findNearestSample", () => {
+  it("picks the sample closest in time", () => {
+    expect(
+      findNearestSample(DATA.hourlyForecast!, "2025-06-21T11:20:00Z")?.time
+    ).toBe("2025-06-21T11:00:00Z");
+  });
+
+  it("finds nothing in an empty forecast", () => {
+    expect(findNearestSample([], "2025-06-21T11:00:00Z")).toBeUndefined();
+  });
+});
+
+describe("adjustUVData", () => {
+  it("returns the data untouched when nothing changes it", () => {
+    const result = adjustUVData(DATA, { surface: "none", altitude: 100 });
+
+    expect(result.adjusted).toBe(false);
+    expect(result.data).toBe(DATA);
+    expect(result.raw).toBe(DATA);
+  });
+
+  it("scales the reading, the forecast and the peak", () => {
+    const result = adjustUVData(DATA, { surface: "snow" });
+
+    expect(result.adjusted).toBe(true);
+    expect(result.raw).toBe(DATA);
+    expect(result.data.uvIndex).toBeCloseTo(7.2);
+    expect(result.data.hourlyForecast?.map((s) => s.uvIndex)).toEqual([
+      expect.closeTo(7.2),
+      expect.closeTo(10.8),
+      expect.closeTo(9),
+    ]);
+    expect(result.data.maxUvIndex).toBeCloseTo(10.8);
+    expect(result.data.maxUvTime).toBe("2025-06-21T11:00:00Z");
+  });
+
+  it("re-summarizes the days of summarized data", () => {
+    const result = adjustUVData(
+      {
+        ...DATA,
+        daily: [
+          {
+            date: "2025-06-21",
+            maxUvIndex: 6,
+            maxUvTime: "2025-06-21T11:00:00Z",
+            hoursAbove: {},
+          },
+        ],
+      },
+      { surface: "none", altitude: 2500 }
+    );
+
+    expect(result.data.daily?.[0].maxUvIndex).toBeCloseTo(7.2);
+  });
+});
+
+describe("isSurfaceType", () => {
+  it("accepts known surfaces only", () => {
+    expect(isSurfaceType("grass")).toBe(true);
+    expect(isSurfaceType("ice")).toBe(false);
+    expect(isSurfaceType(null)).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { UpstreamClient } from "../../app/services/httpClient";
+import { LocationData } from "../../app/services/types";
+import { fetchUVIndexData } from "../../app/services/uvIndexService";
+import {
+  MockUpstream,
+  fixture,
+  startMockUpstream,
+} from "../support/mockUpstream";
+
+const STOCKHOLM: LocationData = { lat: 59.3293, lng: 18.0686 };
+
+// When the fixtures were recorded: midsummer's eve, an hour before the peak
+const NOW = Date.parse("2025-06-21T10:00:00Z");
+
+const ONE_DAY = { days: 1, intervalMinutes: 60 };
+
+describe("fetchUVIndexData", () => {
+  let upstream: MockUpstream;
+  let client: UpstreamClient;
+
+  beforeAll(async () => {
+    upstream = await startMockUpstream();
+  });
+
+  afterAll(() => upstream.close());
+
+  beforeEach(() => {
+    upstream.requests.length = 0;
+    client = {
+      baseUrl: upstream.url,
+      now: () => NOW,
+      request: { retries: 0, timeoutMs: 200 },
+    };
+  });
+
+  it("queries the location's coordinates", async () => {
+    upstream.respond({ body: fixture("currentuvindex/success.json") });
+
+    await fetchUVIndexData(STOCKHOLM, ONE_DAY, client);
+
+    expect(upstream.requests[0].url).toBe(
+      "/?latitude=59.3293&longitude=18.0686"
+    );
+  });
+
+  it("keeps the next 24 hours and picks their highest UV index", async () => {
+    upstream.respond({ body: fixture("currentuvindex/success.json") });
+
+    const data = await fetchUVIndexData(STOCKHOLM, ONE_DAY, client);
+
+    // The fixture runs two days ahead, peaking at 7.2 just after the horizon
+    expect(data.hourlyForecast).toHaveLength(24);
+    expect(data.hourlyForecast?.at(-1)?.time).toBe("2025-06-22T10:00:00Z");
+    expect(data).toMatchObject({
+      provider: "currentuvindex",
+      uvIndex: 6.3,
+      timestamp: "2025-06-21T10:00:00Z",
+      maxUvIndex: 7.1,
+      maxUvTime: "2025-06-22T10:00:00Z",
+    });
+  });
+
+  it("follows the injected clock rather than the real one", async () => {
+    upstream.respond({ body: fixture("currentuvindex/success.json") });
+
+    const data = await fetchUVIndexData(STOCKHOLM, ONE_DAY, {
+      ...client,
+      now: () => NOW - 12 * 60 * 60 * 1000,
+    });
+
+    expect(data.hourlyForecast?.at(-1)?.time).toBe("2025-06-21T22:00:00Z");
+    expect(data.maxUvIndex).toBe(6.4);
+  });
+
+  it("thins the forecast out to the requested interval", async () => {
+    upstream.respond({ body: fixture("currentuvindex/success.json") });
+
+    const data = await fetchUVIndexData(
+      STOCKHOLM,
+      { days: 1, intervalMinutes: 180 },
+      client
+    );
+
+    expect(data.hourlyForecast?.map(({ time }) => time.slice(11, 13))).toEqual(
+      ["11", "14", "17", "20", "23", "02", "05", "08"]
+    );
+  });
+
+  it("rejects an error response as malformed", async () => {
+    upstream.respond({ body: fixture("currentuvindex/error.json") });
+
+    await expect(
+      fetchUVIndexData(STOCKHOLM, ONE_DAY, client)
+    ).rejects.toMatchObject({
+      kind: "malformed",
+      message: "Unexpected response: API returned an error response",
+    });
+  });
+
+  it("rejects a missing UV index as malformed", async () => {
+    upstream.respond({ body: fixture("currentuvindex/malformed.json") });
+
+    await expect(
+      fetchUVIndexData(STOCKHOLM, ONE_DAY, client)
+    ).rejects.toMatchObject({ kind: "malformed", provider: "currentuvindex" });
+  });
+
+  it("rejects a body that is not JSON", async () => {
+    upstream.respond({ body: "<html>Bad gateway</html>" });
+
+    await expect(
+      fetchUVIndexData(STOCKHOLM, ONE_DAY, client)
+    ).rejects.toBeInstanceOf(SyntaxError);
+  });
+
+  it("reports the rate limit", async () => {
+    upstream.respond({ status: 429, body: "Too many requests" });
+
+    await expect(
+      fetchUVIndexData(STOCKHOLM, ONE_DAY, client)
+    ).rejects.toMatchObject({ kind: "rate-limited", provider: "currentuvindex" });
+  });
+
+  it("gives up on an upstream that does not answer in time", async () => {
+    upstream.respond({
+      body: fixture("currentuvindex/success.json"),
+      delayMs: 1000,
+    });
+
+    await expect(
+      fetchUVIndexData(STOCKHOLM, ONE_DAY, {
+        ...client,
+        request: { ...client.request, timeoutMs: 50 },
+      })
+    ).rejects.toMatchObject({ kind: "network", provider: "currentuvindex" });
+  });
+
+  it("sends requests through an injected fetch", async () => {
+    const send = vi.fn(
+      async () => new Response(fixture("currentuvindex/success.json"))
+    );
+
+    const data = await fetchUVIndexData(STOCKHOLM, ONE_DAY, {
+      now: () => NOW,
+      request: { fetch: send },
+    });
+
+    expect(send).toHaveBeenCalledWith(
+      "https://currentuvindex.com/api/v1/uvi?latitude=59.3293&longitude=18.0686",
+      expect.objectContaining({ cache: "no-store" })
+    );
+    expect(data.maxUvIndex).toBe(7.1);
+    expect(upstream.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,106 @@
+// Mock Upstream
+// A local HTTP server standing in for a provider's API, answering with
+// recorded fixtures so the services can be tested without the network
+
+import { readFileSync } from "fs";
+import { IncomingHttpHeaders, createServer } from "http";
+import { AddressInfo } from "net";
+import { join } from "path";
+
+// One canned answer of the mock server
+export interface MockResponse {
+  status?: number;
+  // Raw body, sent as is; see fixture() for the recorded responses
+  body?: string;
+  headers?: Record<string, string>;
+  // Wait this long before answering, e.g. to make the client time out
+  delayMs?: number;
+  // Send the headers on time but hold the body back this long
+  bodyDelayMs?: number;
+}
+
+// A request the mock server received
+export interface RecordedRequest {
+  method: string;
+  // Path and query string
+  url: string;
+  headers: IncomingHttpHeaders;
+}
+
+export interface MockUpstream {
+  // Base URL to hand to the service under test
+  url: string;
+  requests: RecordedRequest[];
+  // Queue answers for the next requests; the last one repeats
+  respond: (...responses: MockResponse[]) => void;
+  close: () => Promise<void>;
+}
+
+const FIXTURES_DIR = join(__dirname, "..", "fixtures");
+
+/**
+ * Read a recorded response body
+ * @param name Path below test/fixtures, e.g. "meteomatics/success.json"
+ */
+export function fixture(name: string): string {
+  return readFileSync(join(FIXTURES_DIR, name), "utf8");
+}
+
+/**
+ * Start a mock upstream server on a free port
+ * @returns The server's URL, the requests it received and its controls
+ */
+export async function startMockUpstream(): Promise<MockUpstream> {
+  const requests: RecordedRequest[] = [];
+  let queue: MockResponse[] = [{ status: 404, body: "" }];
+  // Answers still waiting out their delay
+  const pending = new Set<NodeJS.Timeout>();
+
+  const server = createServer((req, res) => {
+    requests.push({
+      method: req.method ?? "GET",
+      url: req.url ?? "/",
+      headers: req.headers,
+    });
+    const next = queue.length > 1 ? queue.shift()! : queue[0];
+    const {
+      status = 200,
+      body = "",
+      headers = {},
+      delayMs = 0,
+      bodyDelayMs = 0,
+    } = next;
+
+    // Run a step after a delay, dropped if the server closes first
+    const later = (ms: number, step: () => void) => {
+      const timer = setTimeout(() => {
+        pending.delete(timer);
+        step();
+      }, ms);
+      pending.add(timer);
+    };
+
+    later(delayMs, () => {
+      res.writeHead(status, { "Content-Type": "application/json", ...headers });
+      res.flushHeaders();
+      later(bodyDelayMs, () => res.end(body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    respond: (...responses) => {
+      queue = responses;
+    },
+    close: () => {
+      // Drop delayed answers and their connections so close() returns
+      pending.forEach(clearTimeout);
+      server.closeAllConnections();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
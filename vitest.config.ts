@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // Next.js compiles JSX itself, so tell Vite to use the automatic runtime
+  esbuild: { jsx: "automatic" },
+  test: {
+    include: ["test/**/*.test.{ts,tsx}"],
+    // Services run in Node; component tests opt into jsdom per file
+    environment: "node",
+    // Read by the Meteomatics service when it loads; the mock server accepts any
+    env: {
+      METEOMATICS_USERNAME: "test_user",
+      METEOMATICS_PASSWORD: "test_password",
+    },
+  },
+});